@@ -4,13 +4,33 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { createProxySession, isProxySigningEnabled, PROXY_SESSION_COOKIE } from '@/lib/api/proxy-signing';
 
 export const runtime = 'edge';
 
 const ACCESS_PASSWORD = process.env.ACCESS_PASSWORD || '';
 const SUBSCRIPTION_SOURCES = process.env.SUBSCRIPTION_SOURCES || process.env.NEXT_PUBLIC_SUBSCRIPTION_SOURCES || '';
 
+/**
+ * Authorize unsigned requests to /api/proxy, and the signing of client-defined sources'
+ * episodes by /api/detail, for a browser that unlocked the access password
+ */
+async function withProxySession(response: NextResponse, request: NextRequest): Promise<NextResponse> {
+    if (!isProxySigningEnabled()) return response;
+
+    const session = await createProxySession();
+    response.cookies.set(PROXY_SESSION_COOKIE, session.value, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: request.nextUrl.protocol === 'https:',
+        path: '/api',
+        maxAge: session.maxAge,
+    });
+    return response;
+}
+
 export async function GET() {
+    // Playback uses the signed URLs from the detail API; a session is only granted by unlocking
     return NextResponse.json({
         hasEnvPassword: ACCESS_PASSWORD.length > 0,
         subscriptionSources: SUBSCRIPTION_SOURCES,
@@ -26,7 +46,8 @@ export async function POST(request: NextRequest) {
         }
 
         const valid = password === ACCESS_PASSWORD;
-        return NextResponse.json({ valid });
+        const response = NextResponse.json({ valid });
+        return valid ? withProxySession(response, request) : response;
     } catch {
         return NextResponse.json({ valid: false, message: 'Invalid request' }, { status: 400 });
     }
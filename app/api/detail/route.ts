@@ -5,14 +5,51 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getVideoDetail } from '@/lib/api/client';
-import { getSourceById } from '@/lib/api/video-sources';
+import { getServerSource } from '@/lib/api/subscription-sources';
+import { isServerKnownSource, registerSourceHosts, sealPlaybackProfile } from '@/lib/api/playback-profiles';
+import { isServerSourceUrl, registerProxyHosts } from '@/lib/api/proxy-policy';
+import {
+  buildSignedProxyUrl,
+  isProxySigningEnabled,
+  verifyProxySession,
+  PROXY_SESSION_COOKIE,
+} from '@/lib/api/proxy-signing';
+import { encodeProxyContext } from '@/lib/api/proxy-context';
+import type { Episode, VideoDetail, VideoSource } from '@/lib/types';
 
 export const runtime = 'edge';
 
+/**
+ * Signed proxy entry URLs for every episode. Only the server's own sources are named in the
+ * context, since the proxy sends their profiles wherever a signed context leads; a client-defined
+ * source's playback profile travels in it instead, so it only applies to this viewer's playback.
+ */
+async function withSignedProxyUrls(detail: VideoDetail, source: VideoSource, isServerSource: boolean): Promise<VideoDetail> {
+  const context = encodeProxyContext({
+    sourceId: isServerSource ? source.id : undefined,
+    sealedProfile: isServerSource && isServerKnownSource(source.id) ? undefined : await sealPlaybackProfile(source.playback),
+  });
+  const signEpisodes = (episodes: Episode[]) => Promise.all(episodes.map(async episode => ({
+    ...episode,
+    proxyUrl: await buildSignedProxyUrl('', episode.url, context),
+  })));
+
+  return {
+    ...detail,
+    episodes: await signEpisodes(detail.episodes),
+    lines: await Promise.all(detail.lines.map(async line => ({ ...line, episodes: await signEpisodes(line.episodes) }))),
+  };
+}
+
 /**
  * Shared handler for fetching video details
  */
-async function handleDetailRequest(id: string | null, source: string | null, method: string) {
+async function handleDetailRequest(
+  id: string | null,
+  source: string | VideoSource | null,
+  method: string,
+  request: NextRequest
+) {
   // Validate input
   if (!id) {
     return NextResponse.json(
@@ -29,15 +66,10 @@ async function handleDetailRequest(id: string | null, source: string | null, met
     );
   }
 
-  let sourceConfig;
-
-  // If source is an object (from POST), use it
-  if (typeof source === 'object') {
-    sourceConfig = source;
-  } else {
-    // If source is a string ID (from GET), try to look it up
-    sourceConfig = getSourceById(source);
-  }
+  // The server's own config wins, so a made-up source can't borrow a real source's id;
+  // otherwise the source object sent with a POST is used
+  const serverSource = await getServerSource(typeof source === 'object' ? source.id : source);
+  const sourceConfig = serverSource || (typeof source === 'object' ? source : undefined);
 
   if (!sourceConfig) {
     return NextResponse.json(
@@ -49,14 +81,27 @@ async function handleDetailRequest(id: string | null, source: string | null, met
   // Fetch video detail without validation (already validated during search)
   try {
     const videoDetail = await getVideoDetail(id, sourceConfig);
+    // Let the proxy fetch this source's playlists when restricted to source hosts,
+    // but only for the server's own sources, never a config the client made up
+    const episodeUrls = videoDetail.lines.flatMap(line => line.episodes.map(episode => episode.url));
+    if (await isServerSourceUrl(sourceConfig.baseUrl)) {
+      registerProxyHosts(episodeUrls);
+    }
+    // Where the source's profile may be sent for unsigned requests
+    if (serverSource) {
+      registerSourceHosts(serverSource.id, episodeUrls);
+    }
 
     // Skip validation - videos are already checked during search
-    // Just return the episodes as-is
-
-
+    // Just return the episodes as-is, with signed proxy URLs when the proxy requires them.
+    // Anyone could post a source returning URLs of their choice, so a client-defined source's
+    // episodes are only signed for a browser that unlocked the access password
+    const shouldSign = isProxySigningEnabled()
+      && (Boolean(serverSource) || await verifyProxySession(request.cookies.get(PROXY_SESSION_COOKIE)?.value));
     return NextResponse.json({
       success: true,
-      data: videoDetail,
+      data: shouldSign ? await withSignedProxyUrls(videoDetail, sourceConfig, Boolean(serverSource)) : videoDetail,
+      proxySigning: isProxySigningEnabled(), // Unsigned proxy URLs won't open elsewhere when set
     });
   } catch (error) {
     console.error('Detail API error:', error);
@@ -77,7 +122,7 @@ export async function GET(request: NextRequest) {
     const id = searchParams.get('id');
     const source = searchParams.get('source');
 
-    return await handleDetailRequest(id, source, 'GET');
+    return await handleDetailRequest(id, source, 'GET', request);
   } catch (error) {
     console.error('Detail API error:', error);
 
@@ -97,7 +142,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { id, source } = body;
 
-    return await handleDetailRequest(id, source, 'POST');
+    return await handleDetailRequest(id, source, 'POST', request);
   } catch (error) {
     console.error('Detail API error:', error);
 
@@ -0,0 +1,49 @@
+/**
+ * Douban Subject API Route
+ * GET /api/douban/subject?id=<subject id> or ?title=<title>&year=<year>
+ * Resolves to rating, cover, directors, cast, summary and genres
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDoubanSubjectById, resolveDoubanSubject } from '@/lib/api/douban-subject';
+
+export const runtime = 'edge';
+
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const title = searchParams.get('title')?.trim();
+    const year = searchParams.get('year') || undefined;
+
+    if (!id && !title) {
+        return NextResponse.json(
+            { error: 'Missing id or title parameter' },
+            { status: 400 }
+        );
+    }
+
+    if (id && !/^\d+$/.test(id)) {
+        return NextResponse.json(
+            { error: 'Invalid subject id' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const subject = id
+            ? await getDoubanSubjectById(id)
+            : await resolveDoubanSubject(title!, year);
+
+        // A miss may only be Douban failing for now, so it is left to the short server-side miss cache
+        return NextResponse.json(
+            { subject },
+            { headers: { 'Cache-Control': subject ? 'public, s-maxage=86400, stale-while-revalidate=3600' : 'no-store' } }
+        );
+    } catch (error) {
+        console.error('Douban Subject API error:', error);
+        return NextResponse.json(
+            { subject: null, error: 'Failed to fetch subject' },
+            { status: 500 }
+        );
+    }
+}
@@ -3,6 +3,8 @@ import { NextResponse } from 'next/server';
 export const runtime = 'edge';
 // We still import this type but won't rely on the empty array
 import { PREMIUM_SOURCES } from '@/lib/api/premium-sources';
+import { parseSourceResponse } from '@/lib/api/source-format';
+import { buildCategoryUrl } from '@/lib/api/source-url';
 
 /**
  * Shared handler for fetching content
@@ -45,13 +47,7 @@ async function handleCategoryRequest(
 
         const fetchPromises = targetSources.map(async (source: any) => {
             try {
-                const url = new URL(source.baseUrl);
-                url.searchParams.set('ac', 'detail');
-                url.searchParams.set('pg', page.toString());
-
-                if (sourceMap.has(source.id)) {
-                    url.searchParams.set('t', sourceMap.get(source.id)!);
-                }
+                const url = buildCategoryUrl(source, page, sourceMap.get(source.id));
 
                 const controller = new AbortController();
                 const timeoutId = setTimeout(() => controller.abort(), 8000);
@@ -68,7 +64,7 @@ async function handleCategoryRequest(
 
                 if (!response.ok) return [];
 
-                const data = await response.json();
+                const data = await parseSourceResponse(response, source.format);
                 return (data.list || []).map((item: any) => ({
                     vod_id: item.vod_id,
                     vod_name: item.vod_name,
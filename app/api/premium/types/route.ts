@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { PREMIUM_SOURCES } from '@/lib/api/premium-sources';
+import { buildListUrl } from '@/lib/api/source-url';
 
 export const runtime = 'edge';
 
@@ -24,8 +25,7 @@ async function handleTypesRequest(sourceList: any[]) {
         const results = await Promise.allSettled(
             enabledSources.map(async (source: any) => {
                 try {
-                    const url = new URL(source.baseUrl);
-                    url.searchParams.set('ac', 'list');
+                    const url = buildListUrl(source);
 
                     const controller = new AbortController();
                     const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
@@ -1,6 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { processM3u8Content } from '@/lib/utils/proxy-utils';
 import { fetchWithRetry } from '@/lib/utils/fetch-with-retry';
+import { getProxyContext, PROXY_CONTEXT_PARAM } from '@/lib/api/proxy-context';
+import { registerSourceHosts, resolvePlaybackProfile } from '@/lib/api/playback-profiles';
+import { getAdFilterOptions } from '@/lib/utils/hls-ad-filter';
+import { detectFormatFromContentType, detectFormatFromUrl } from '@/lib/utils/media-format';
+import {
+    checkProxyTarget,
+    loadSubscriptionHosts,
+    registerProxyHosts,
+    checkProxyResponse,
+    limitProxyBody,
+    getMaxProxyBytes,
+    logProxyRejection,
+    ProxyPolicyError,
+} from '@/lib/api/proxy-policy';
+import {
+    isProxySigningEnabled,
+    verifyProxyToken,
+    verifyProxySession,
+    buildProxyScopeParams,
+    PROXY_SESSION_COOKIE,
+    PROXY_SCOPE_HEADER,
+} from '@/lib/api/proxy-signing';
+import {
+    RANGE_REQUEST_HEADERS,
+    RANGE_ALLOWED_HEADERS,
+    RANGE_EXPOSED_HEADERS,
+    clampRange,
+    buildMediaResponseHeaders,
+} from '@/lib/api/proxy-range';
+import {
+    getProxyCacheKind,
+    getCachedUpstream,
+    setCachedUpstream,
+    isCacheablePlaylist,
+    isCacheableKeyResponse,
+    PROXY_CACHE_HEADER,
+    type ProxyCacheStatus,
+} from '@/lib/api/proxy-cache';
 
 export const runtime = 'edge';
 
@@ -8,7 +46,25 @@ export const runtime = 'edge';
 // Note: This is not supported in Cloudflare Workers/Edge Runtime.
 // process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
 
-export async function GET(request: NextRequest) {
+/**
+ * Requests must carry a valid token, issued with the episode list or by the proxy itself;
+ * unsigned ones are only accepted from a client that unlocked the access password
+ */
+async function authorizeProxyRequest(request: NextRequest): Promise<void> {
+    if (!isProxySigningEnabled()) return;
+
+    if (request.nextUrl.searchParams.has('sig')) {
+        const reason = await verifyProxyToken(request.nextUrl.searchParams);
+        if (reason) throw new ProxyPolicyError(reason);
+        return;
+    }
+
+    if (!await verifyProxySession(request.cookies.get(PROXY_SESSION_COOKIE)?.value)) {
+        throw new ProxyPolicyError('Unsigned request without a proxy session', 401);
+    }
+}
+
+async function handleProxyRequest(request: NextRequest, method: 'GET' | 'HEAD') {
     const url = request.nextUrl.searchParams.get('url');
 
     if (!url) {
@@ -16,25 +72,68 @@ export async function GET(request: NextRequest) {
     }
 
     try {
-        // Extract headers to forward (only essential ones)
+        await authorizeProxyRequest(request);
+        const signed = request.nextUrl.searchParams.has('sig');
+        const verified = signed && isProxySigningEnabled();
+        const requestContext = getProxyContext(request.nextUrl.searchParams, signed);
+        await loadSubscriptionHosts();
+        checkProxyTarget(url, verified && Boolean(requestContext.sourceId));
+        // Resolved again at every hop, so the source's headers never leave the server
+        const profile = await resolvePlaybackProfile(requestContext, url, verified);
+        // Rewritten URIs get signed, so an unsigned request only passes on the source it was granted
+        const context = verified ? requestContext : {
+            ...requestContext,
+            sourceId: profile ? requestContext.sourceId : undefined,
+            sealedProfile: undefined,
+        };
+        // A viewer preference outside the signed context: it only decides which segments are dropped
+        const adFilter = getAdFilterOptions(request.nextUrl.searchParams);
+        const isPlaylistUrl = url.includes('.m3u8') || context.resource === 'playlist';
+
+        // Extract headers to forward (only essential ones); client cookies stay with this site.
+        // Playlists are always fetched whole, so only media requests may be conditional
         const requestHeaders: Record<string, string> = {};
-        const forwardHeaders = ['cookie', 'range'];
+        const forwardHeaders = isPlaylistUrl ? ['range'] : RANGE_REQUEST_HEADERS;
 
         forwardHeaders.forEach(key => {
             const value = request.headers.get(key);
             if (value) requestHeaders[key] = value;
         });
+        if (requestHeaders.range) {
+            requestHeaders.range = clampRange(requestHeaders.range, getMaxProxyBytes());
+        }
 
-        const response = await fetchWithRetry({ url, request, headers: requestHeaders });
+        // Whole-file GETs of playlists and keys may be answered from the proxy cache
+        const cacheKind = method === 'GET' && Object.keys(requestHeaders).length === 0
+            ? getProxyCacheKind(url, context)
+            : null;
+        const cached = cacheKind ? await getCachedUpstream(cacheKind, url, context) : null;
 
-        // If upstream returned an error, pass it through with CORS headers
+        const response = cached || await fetchWithRetry({
+            url,
+            method,
+            headers: requestHeaders,
+            context,
+            profile,
+        });
+
+        // Answers to the client's own conditions: cached copy still valid, or range past the end
+        if (response.status === 304 || response.status === 416) {
+            await response.body?.cancel();
+            return new NextResponse(null, {
+                status: response.status,
+                headers: buildMediaResponseHeaders(response),
+            });
+        }
+
+        // If upstream returned an error, report the status without relaying its page
         if (!response.ok) {
-            const errorText = await response.text();
-            return new NextResponse(errorText || `Upstream error: ${response.status}`, {
+            await response.body?.cancel();
+            return new NextResponse(`Upstream error: ${response.status}`, {
                 status: response.status,
                 statusText: response.statusText,
                 headers: {
-                    'Content-Type': response.headers.get('Content-Type') || 'text/plain',
+                    'Content-Type': 'text/plain',
                     'Access-Control-Allow-Origin': '*',
                 },
             });
@@ -48,15 +147,46 @@ export async function GET(request: NextRequest) {
                 contentType.includes('application/x-mpegurl')) ||
             url.endsWith('.m3u8');
 
+        const isPlaylistCandidate = Boolean(isM3u8ByHeader) || isPlaylistUrl;
+        checkProxyResponse(response, isPlaylistCandidate);
+
+        if (method === 'HEAD') {
+            const headers = buildMediaResponseHeaders(response);
+            // A rewritten playlist's length is only known once it has been fetched and processed
+            if (isPlaylistCandidate) headers.delete('Content-Length');
+            return new NextResponse(null, {
+                status: response.status,
+                statusText: response.statusText,
+                headers,
+            });
+        }
+
         // For potential M3U8 files, check content
-        if (isM3u8ByHeader || url.includes('.m3u8')) {
+        if (isPlaylistCandidate) {
             const text = await response.text();
+            if (text.length > getMaxProxyBytes()) {
+                throw new ProxyPolicyError('Playlist exceeds the size limit', 413);
+            }
 
             // Verify it's actually M3U8 content (starts with #EXTM3U or #EXT-X-)
             if (text.trim().startsWith('#EXTM3U') || text.trim().startsWith('#EXT-X-')) {
-                const modifiedText = await processM3u8Content(text, url, request.nextUrl.origin);
+                const processed = await processM3u8Content(text, url, request.nextUrl.origin, context, adFilter);
+                registerProxyHosts(processed.uris);
+                // Signed URIs vouch for their source already; unsigned ones are checked against its hosts
+                if (profile && context.sourceId && !verified) {
+                    registerSourceHosts(context.sourceId, processed.uris);
+                }
 
-                return new NextResponse(modifiedText, {
+                // The upstream text is cached, so each request still gets freshly signed URIs
+                let cacheStatus: ProxyCacheStatus = 'BYPASS';
+                if (cacheKind === 'manifest') {
+                    cacheStatus = cached ? 'HIT' : isCacheablePlaylist(text) ? 'MISS' : 'BYPASS';
+                    if (cacheStatus === 'MISS') {
+                        await setCachedUpstream('manifest', url, context, text, contentType);
+                    }
+                }
+
+                return new NextResponse(processed.content, {
                     status: response.status,
                     statusText: response.statusText,
                     headers: {
@@ -64,11 +194,16 @@ export async function GET(request: NextRequest) {
                         'Access-Control-Allow-Origin': '*',
                         'Access-Control-Allow-Methods': 'GET, OPTIONS',
                         'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+                        // Read by the player to report how much ad time was skipped
+                        'Access-Control-Expose-Headers': `X-Ad-Stripped-Seconds, ${PROXY_CACHE_HEADER}`,
+                        'X-Ad-Stripped-Seconds': String(processed.strippedSeconds),
+                        [PROXY_CACHE_HEADER]: cacheStatus,
                     },
                 });
             }
 
-            // Not M3U8 content, return as-is
+            // Not M3U8 content, return as-is if it's a type the proxy may serve
+            checkProxyResponse(response, false);
             return new NextResponse(text, {
                 status: response.status,
                 statusText: response.statusText,
@@ -79,26 +214,44 @@ export async function GET(request: NextRequest) {
             });
         }
 
-        // For non-m3u8 content
-        const headers = new Headers();
-        response.headers.forEach((value, key) => {
-            const lowerKey = key.toLowerCase();
-            if (!['content-encoding', 'content-length', 'transfer-encoding'].includes(lowerKey)) {
-                headers.set(key, value);
+        // Keys are small enough to buffer, so they can be stored on the way through
+        if (cacheKind === 'key' && (cached || isCacheableKeyResponse(response))) {
+            const body = await response.arrayBuffer();
+            if (!cached) {
+                await setCachedUpstream('key', url, context, body, contentType);
             }
-        });
 
-        headers.set('Access-Control-Allow-Origin', '*');
-        headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS');
-        headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-        headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+            const headers = buildMediaResponseHeaders(response);
+            headers.set(PROXY_CACHE_HEADER, cached ? 'HIT' : 'MISS');
+            headers.set('Access-Control-Expose-Headers', `${RANGE_EXPOSED_HEADERS}, ${PROXY_CACHE_HEADER}`);
+            return new NextResponse(body, { status: 200, headers });
+        }
+
+        // For non-m3u8 content: relay status, length and range headers so the player can seek
+        const headers = buildMediaResponseHeaders(response);
 
-        return new NextResponse(response.body, {
+        // The player requests a DASH manifest's segments itself, so it gets a token for its directory
+        const isDashManifest = detectFormatFromContentType(contentType) === 'dash' || detectFormatFromUrl(url) === 'dash';
+        if (isDashManifest && isProxySigningEnabled()) {
+            const encodedContext = request.nextUrl.searchParams.get(PROXY_CONTEXT_PARAM) || '';
+            headers.set(PROXY_SCOPE_HEADER, await buildProxyScopeParams(url, encodedContext));
+            headers.set('Access-Control-Expose-Headers', `${RANGE_EXPOSED_HEADERS}, ${PROXY_SCOPE_HEADER}`);
+        }
+
+        return new NextResponse(response.body && limitProxyBody(response.body), {
             status: response.status,
             statusText: response.statusText,
-            headers: headers,
+            headers,
         });
     } catch (error) {
+        if (error instanceof ProxyPolicyError) {
+            logProxyRejection(request, url, error);
+            return NextResponse.json(
+                { error: 'Proxy request rejected', message: error.message },
+                { status: error.status, headers: { 'Access-Control-Allow-Origin': '*' } }
+            );
+        }
+
         console.error('Proxy error:', error);
         return new NextResponse(
             JSON.stringify({
@@ -117,13 +270,21 @@ export async function GET(request: NextRequest) {
     }
 }
 
+export async function GET(request: NextRequest) {
+    return handleProxyRequest(request, 'GET');
+}
+
+export async function HEAD(request: NextRequest) {
+    return handleProxyRequest(request, 'HEAD');
+}
+
 export async function OPTIONS(request: NextRequest) {
     return new NextResponse(null, {
         status: 204,
         headers: {
             'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+            'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+            'Access-Control-Allow-Headers': RANGE_ALLOWED_HEADERS,
         },
     });
 }
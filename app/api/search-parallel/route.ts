@@ -5,28 +5,49 @@
  */
 
 import { NextRequest } from 'next/server';
+import type { VideoItem, VideoSource } from '@/lib/types';
 import { searchVideos } from '@/lib/api/client';
 import { getSourceById } from '@/lib/api/video-sources';
 import { getSourceName } from '@/lib/utils/source-names';
+import { acquireSource, releaseSource, recordSuccess, recordFailure } from '@/lib/api/source-health';
+import { SourceError, SourceHttpError, toSourceError } from '@/lib/api/errors';
+import { getCachedSearch, setCachedSearch, type CacheStatus } from '@/lib/api/search-cache';
+import { scheduleSourceRequest } from '@/lib/api/search-scheduler';
+import { toSimplified } from '@/lib/utils/chinese-text';
+import { parseSearchQuery, matchesSearchFilters } from '@/lib/utils/search-query';
+import { recordResultTitles } from '@/lib/api/suggest-index';
 
 export const runtime = 'edge';
 
 export async function POST(request: NextRequest) {
   const encoder = new TextEncoder();
 
+  // Cancelled when the client disconnects, so upstream requests and retry sleeps stop too
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  request.signal?.addEventListener('abort', () => abortController.abort(), { once: true });
+
   const stream = new ReadableStream({
     async start(controller) {
+      // Writes after the client went away would throw, so drop them
+      const enqueue = (chunk: Uint8Array) => {
+        if (!signal.aborted) controller.enqueue(chunk);
+      };
+      const close = () => {
+        if (!signal.aborted) controller.close();
+      };
+
       try {
         const body = await request.json();
         const { query, sources: sourceConfigs, page = 1 } = body;
 
         // Validate input
-        if (!query || typeof query !== 'string' || query.trim().length === 0) {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        if (!query || typeof query !== 'string' || parseSearchQuery(query).text.length === 0) {
+          enqueue(encoder.encode(`data: ${JSON.stringify({
             type: 'error',
             message: 'Invalid query'
           })}\n\n`));
-          controller.close();
+          close();
           return;
         }
 
@@ -36,75 +57,163 @@ export async function POST(request: NextRequest) {
           : [];
 
         if (sources.length === 0) {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+          enqueue(encoder.encode(`data: ${JSON.stringify({
             type: 'error',
             message: 'No valid sources provided'
           })}\n\n`));
-          controller.close();
+          close();
           return;
         }
 
         // Send initial status
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        enqueue(encoder.encode(`data: ${JSON.stringify({
           type: 'start',
           totalSources: sources.length
         })}\n\n`));
 
 
 
+        // Only the free text goes to sources; year:/type:/area:/actor:/-term filter the results here
+        const { text, filters } = parseSearchQuery(query);
+        // Sources index Simplified titles, so Traditional-only characters are sent converted
+        const searchQuery = toSimplified(text);
+
         // Track progress
         let completedSources = 0;
         let totalVideosFound = 0;
 
-        // Search all sources in PARALLEL - don't wait for all to finish
-        const searchPromises = sources.map(async (source: any) => {
-          const startTime = performance.now(); // Track start time
-          try {
+        // Tell the client which source failed and why
+        const sendSourceError = (source: { id: string; name?: string }, error: SourceError) => {
+          enqueue(encoder.encode(`data: ${JSON.stringify({
+            type: 'source-error',
+            source: source.id,
+            sourceName: source.name || getSourceName(source.id),
+            code: error.code,
+            message: error.message,
+            status: error instanceof SourceHttpError ? error.status : undefined,
+          })}\n\n`));
+        };
 
+        // Stream a source's videos with latency data, then a progress update
+        const streamResults = (source: { id: string }, allVideos: VideoItem[], pageCount: number, latency: number, cached?: CacheStatus) => {
+          const videos = allVideos.filter(video => matchesSearchFilters(video, filters));
+          recordResultTitles(videos.map(video => video.vod_name));
+          completedSources++;
+          totalVideosFound += videos.length;
 
-            // Search this source
-            const result = await searchVideos(query.trim(), [source], page);
-            const endTime = performance.now(); // Track end time
-            const latency = Math.round(endTime - startTime); // Calculate latency in ms
-            const videos = result[0]?.results || [];
+          // Stream videos immediately as they arrive WITH latency data
+          if (videos.length > 0) {
+            enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'videos',
+              videos: videos.map(video => ({
+                ...video,
+                sourceDisplayName: getSourceName(source.id),
+                latency, // Add latency to each video
+              })),
+              source: source.id,
+              page,
+              cached, // 'fresh' or 'stale' when served from the server cache
+              completedSources,
+              totalSources: sources.length,
+              latency, // Also include at source level
+            })}\n\n`));
+          }
 
-            completedSources++;
-            totalVideosFound += videos.length;
-
-
-
-            // Stream videos immediately as they arrive WITH latency data
-            if (videos.length > 0) {
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                type: 'videos',
-                videos: videos.map((video: any) => ({
-                  ...video,
-                  sourceDisplayName: getSourceName(source.id),
-                  latency, // Add latency to each video
-                })),
-                source: source.id,
-                completedSources,
-                totalSources: sources.length,
-                latency, // Also include at source level
-              })}\n\n`));
+          // Send progress update, with the page count even when the filters emptied this page,
+          // so the client can still request further pages from this source only
+          enqueue(encoder.encode(`data: ${JSON.stringify({
+            type: 'progress',
+            completedSources,
+            totalSources: sources.length,
+            totalVideosFound,
+            source: source.id,
+            page,
+            pagecount: pageCount,
+          })}\n\n`));
+        };
+
+        // Query the source through the scheduler and store the result in the shared cache
+        const searchAndCache = async (source: VideoSource, requestSignal?: AbortSignal) => {
+          const { result, latency } = await scheduleSourceRequest(source, async () => {
+            const startTime = performance.now(); // Track start time, once the request actually runs
+            const result = await searchVideos(searchQuery, [source], page, requestSignal);
+            // Thrown inside the slot so the scheduler sees rate limiting
+            if (result[0]?.error) {
+              throw result[0].error;
             }
+            return { result, latency: Math.round(performance.now() - startTime) }; // Calculate latency in ms
+          }, requestSignal);
+
+          const videos = result[0]?.results || [];
+          const pageCount = result[0]?.pageCount || page;
+          recordSuccess(source, latency);
+          await setCachedSearch(source, searchQuery, page, { results: videos, pageCount, latency });
+          return { videos, pageCount, latency };
+        };
 
-            // Send progress update
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        // Refresh a stale entry without tying it to this client's connection
+        const revalidate = async (source: VideoSource) => {
+          if (!acquireSource(source).allowed) return;
+          try {
+            await searchAndCache(source);
+          } catch (error) {
+            recordFailure(source, toSourceError(error, source.id).message);
+          }
+        };
+        const revalidations: Promise<void>[] = [];
+
+        // Search all sources in PARALLEL - don't wait for all to finish
+        const searchPromises = sources.map(async (source: any) => {
+
+          // Serve from the shared cache when possible; stale entries are refreshed in the background
+          const cached = await getCachedSearch(source, searchQuery, page);
+          if (cached) {
+            if (cached.status === 'stale') {
+              revalidations.push(revalidate(source));
+            }
+            const { results, pageCount, latency } = cached.value;
+            streamResults(source, results, pageCount || page, latency || 0, cached.status);
+            return;
+          }
+
+          // Skip sources whose circuit breaker is open; half-open ones get a single probe
+          const breaker = acquireSource(source);
+          if (!breaker.allowed) {
+            sendSourceError(source, new SourceError('CIRCUIT_OPEN', 'Source is benched after repeated failures', false));
+            completedSources++;
+            enqueue(encoder.encode(`data: ${JSON.stringify({
               type: 'progress',
               completedSources,
               totalSources: sources.length,
-              totalVideosFound
+              totalVideosFound,
+              skippedSource: source.id,
             })}\n\n`));
+            return;
+          }
 
+          const startTime = performance.now(); // Track start time
+          try {
+            // Search this source
+            const { videos, pageCount, latency } = await searchAndCache(source, signal);
+            streamResults(source, videos, pageCount, latency);
           } catch (error) {
+            // Client went away: not the source's fault, just free a half-open probe slot
+            if (signal.aborted) {
+              releaseSource(source);
+              return;
+            }
+
             const endTime = performance.now();
             const latency = Math.round(endTime - startTime);
             // Log error but continue with other sources
-            console.error(`[Search Parallel] Source ${source.id} failed after ${latency}ms:`, error);
+            const sourceError = toSourceError(error, source.id);
+            console.error(`[Search Parallel] Source ${source.id} failed after ${latency}ms:`, sourceError);
+            recordFailure(source, sourceError.message);
             completedSources++;
 
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+            sendSourceError(source, sourceError);
+
+            enqueue(encoder.encode(`data: ${JSON.stringify({
               type: 'progress',
               completedSources,
               totalSources: sources.length,
@@ -119,23 +228,30 @@ export async function POST(request: NextRequest) {
 
 
         // Send completion signal
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        enqueue(encoder.encode(`data: ${JSON.stringify({
           type: 'complete',
           totalVideosFound,
           totalSources: sources.length
         })}\n\n`));
 
-        controller.close();
+        close();
+
+        // Let background refreshes of stale entries finish before the handler exits
+        await Promise.allSettled(revalidations);
 
       } catch (error) {
+        if (signal.aborted) return;
         console.error('Search error:', error);
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        enqueue(encoder.encode(`data: ${JSON.stringify({
           type: 'error',
           message: error instanceof Error ? error.message : 'Unknown error'
         })}\n\n`));
-        controller.close();
+        close();
       }
-    }
+    },
+    cancel() {
+      abortController.abort();
+    },
   });
 
   return new Response(stream, {
@@ -0,0 +1,16 @@
+/**
+ * Source Health API Route
+ * Exposes circuit breaker state per source so settings can show benched sources
+ */
+
+import { NextResponse } from 'next/server';
+import { getHealthSnapshot } from '@/lib/api/source-health';
+
+export const runtime = 'edge';
+
+export async function GET() {
+    return NextResponse.json(
+        { sources: getHealthSnapshot() },
+        { headers: { 'Cache-Control': 'no-store' } }
+    );
+}
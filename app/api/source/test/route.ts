@@ -0,0 +1,42 @@
+/**
+ * Source Test API Route
+ * Validates a candidate source and returns a structured report before it is saved
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { testSource } from '@/lib/api/source-test';
+import type { VideoSource } from '@/lib/types';
+
+export const runtime = 'edge';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const source = body.source as VideoSource | undefined;
+
+        if (!source || typeof source.baseUrl !== 'string') {
+            return NextResponse.json({ error: 'Invalid source configuration' }, { status: 400 });
+        }
+
+        try {
+            new URL(source.baseUrl);
+        } catch {
+            return NextResponse.json({ error: 'Invalid URL format' }, { status: 400 });
+        }
+
+        const query = typeof body.query === 'string' && body.query.trim() ? body.query.trim() : undefined;
+        const report = await testSource(
+            { ...source, searchPath: source.searchPath || '', detailPath: source.detailPath || '' },
+            request.nextUrl.origin,
+            query
+        );
+
+        return NextResponse.json(report);
+    } catch (error) {
+        console.error('Source test error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
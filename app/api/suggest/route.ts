@@ -0,0 +1,36 @@
+/**
+ * Search Suggestions API Route
+ * GET /api/suggest?q=<prefix>
+ * Completions merged from recent result titles and Douban hot titles; the browser ranks its own history in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSuggestions } from '@/lib/api/suggest-index';
+
+export const runtime = 'edge';
+
+const MAX_PREFIX_LENGTH = 50;
+
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const prefix = (searchParams.get('q') || '').trim().slice(0, MAX_PREFIX_LENGTH);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10', 10) || 10, 20);
+
+    if (!prefix) {
+        return NextResponse.json({ suggestions: [] });
+    }
+
+    try {
+        const suggestions = await getSuggestions(prefix, limit);
+        return NextResponse.json(
+            { suggestions },
+            { headers: { 'Cache-Control': 'no-store' } }
+        );
+    } catch (error) {
+        console.error('Suggest API error:', error);
+        return NextResponse.json(
+            { suggestions: [], error: 'Failed to load suggestions' },
+            { status: 500 }
+        );
+    }
+}
@@ -8,6 +8,7 @@ import { WatchHistorySidebar } from '@/components/history/WatchHistorySidebar';
 import { FavoritesSidebar } from '@/components/favorites/FavoritesSidebar';
 import { Navbar } from '@/components/layout/Navbar';
 import { SearchResults } from '@/components/home/SearchResults';
+import { FailedSources } from '@/components/search/FailedSources';
 import { useHomePage } from '@/lib/hooks/useHomePage';
 
 function HomePage() {
@@ -19,6 +20,11 @@ function HomePage() {
     availableSources,
     completedSources,
     totalSources,
+    failedSources,
+    currentPage,
+    hasMore,
+    loadingMore,
+    loadMore,
     handleSearch,
     handleReset,
   } = useHomePage();
@@ -52,9 +58,20 @@ function HomePage() {
             results={results}
             availableSources={availableSources}
             loading={loading}
+            page={currentPage}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            onLoadMore={loadMore}
+            query={query}
+            onSearch={handleSearch}
           />
         )}
 
+        {/* Failed Sources - Why some sources returned nothing */}
+        {hasSearched && !loading && (
+          <FailedSources failures={failedSources} className="mt-6" />
+        )}
+
         {/* Popular Features - Homepage */}
         {!loading && !hasSearched && <PopularFeatures onSearch={handleSearch} />}
 
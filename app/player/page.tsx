@@ -1,6 +1,6 @@
 'use client';
 
-import { Suspense, useEffect, useMemo, useState, useCallback } from 'react';
+import { Suspense, useEffect, useMemo, useState, useCallback, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { VideoPlayer } from '@/components/player/VideoPlayer';
@@ -15,6 +15,33 @@ import { FavoriteButton } from '@/components/favorites/FavoriteButton';
 import { PlayerNavbar } from '@/components/player/PlayerNavbar';
 import { settingsStore } from '@/lib/store/settings-store';
 import Image from 'next/image';
+import { readSearchCache } from '@/lib/hooks/useSearchCache';
+import { getWorkKey, isSameWork } from '@/lib/utils/work-identity';
+import type { Video } from '@/lib/types';
+
+/**
+ * Add sources from the last cached search whose results resolve to the same work
+ */
+function withCachedWorkSources(sources: SourceInfo[], workKey: string): SourceInfo[] {
+  if (typeof window === 'undefined') return sources;
+  const cached = readSearchCache();
+  if (!cached) return sources;
+
+  const merged = [...sources];
+  const seen = new Set(sources.map(item => item.source));
+  (cached.results as Video[]).forEach(video => {
+    if (seen.has(video.source) || !isSameWork(getWorkKey(video), workKey)) return;
+    seen.add(video.source);
+    merged.push({
+      id: video.vod_id,
+      source: video.source,
+      sourceName: video.sourceName,
+      latency: video.latency,
+      pic: video.vod_pic,
+    });
+  });
+  return merged;
+}
 
 function PlayerContent() {
   const searchParams = useSearchParams();
@@ -26,21 +53,30 @@ function PlayerContent() {
   const source = searchParams.get('source');
   const title = searchParams.get('title');
   const episodeParam = searchParams.get('episode');
+  const lineParam = searchParams.get('line');
   const groupedSourcesParam = searchParams.get('groupedSources');
+  const workKey = searchParams.get('work') || (title ? getWorkKey({ vod_name: title }) : null);
 
-  // Parse grouped sources if available
+  // Grouped sources from the search page, plus cached search results for the same work
   const groupedSources = useMemo<SourceInfo[]>(() => {
-    if (!groupedSourcesParam) return [];
-    try {
-      return JSON.parse(groupedSourcesParam);
-    } catch {
-      return [];
+    let parsed: SourceInfo[] = [];
+    if (groupedSourcesParam) {
+      try {
+        parsed = JSON.parse(groupedSourcesParam);
+      } catch {
+        parsed = [];
+      }
     }
-  }, [groupedSourcesParam]);
+    return workKey ? withCachedWorkSources(parsed, workKey) : parsed;
+  }, [groupedSourcesParam, workKey]);
 
   // Track current source for switching
   const [currentSourceId, setCurrentSourceId] = useState(source);
 
+  // Playback position reported by the player, carried over when switching lines
+  const playbackTimeRef = useRef(0);
+  const [resumeTime, setResumeTime] = useState(0);
+
   // Track settings
   const [isReversed, setIsReversed] = useState(() =>
     typeof window !== 'undefined' ? settingsStore.getSettings().episodeReverseOrder : false
@@ -59,25 +95,30 @@ function PlayerContent() {
 
   const {
     videoData,
+    episodes,
+    lines,
+    currentLine,
     loading,
     videoError,
     currentEpisode,
     playUrl,
+    proxyPlayUrl,
     setCurrentEpisode,
     setPlayUrl,
     setVideoError,
+    switchLine,
     fetchVideoDetails,
-  } = useVideoPlayer(videoId, source, episodeParam, isReversed);
+  } = useVideoPlayer(videoId, source, episodeParam, isReversed, lineParam);
 
   // Add initial history entry when video data is loaded
   useEffect(() => {
     if (videoData && playUrl && videoId) {
       // Map episodes to include index
-      const mappedEpisodes = videoData.episodes?.map((ep, idx) => ({
+      const mappedEpisodes = episodes.map((ep, idx) => ({
         name: ep.name || `第${idx + 1}集`,
         url: ep.url,
         index: idx,
-      })) || [];
+      }));
 
       addToHistory(
         videoId,
@@ -88,12 +129,14 @@ function PlayerContent() {
         0, // Initial playback position
         0, // Will be updated by VideoPlayer
         videoData.vod_pic,
-        mappedEpisodes
+        mappedEpisodes,
+        { vod_year: videoData.vod_year, type_name: videoData.type_name }
       );
     }
-  }, [videoData, playUrl, videoId, currentEpisode, source, title, addToHistory]);
+  }, [videoData, episodes, playUrl, videoId, currentEpisode, source, title, addToHistory]);
 
   const handleEpisodeClick = useCallback((episode: any, index: number) => {
+    setResumeTime(0);
     setCurrentEpisode(index);
     setPlayUrl(episode.url);
     setVideoError('');
@@ -104,6 +147,19 @@ function PlayerContent() {
     router.replace(`/player?${params.toString()}`, { scroll: false });
   }, [searchParams, router, setCurrentEpisode, setPlayUrl, setVideoError]);
 
+  // Switch play line, keeping the episode index and playback position
+  const handleLineChange = (lineIndex: number) => {
+    const episodeIndex = switchLine(lineIndex);
+    if (episodeIndex === null) return;
+
+    setResumeTime(episodeIndex === currentEpisode ? playbackTimeRef.current : 0);
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('line', lineIndex.toString());
+    params.set('episode', episodeIndex.toString());
+    router.replace(`/player?${params.toString()}`, { scroll: false });
+  };
+
   const handleToggleReverse = (reversed: boolean) => {
     setIsReversed(reversed);
     const settings = settingsStore.getSettings();
@@ -115,8 +171,7 @@ function PlayerContent() {
 
   // Handle auto-next episode
   const handleNextEpisode = useCallback(() => {
-    const episodes = videoData?.episodes;
-    if (!episodes) return;
+    if (episodes.length === 0) return;
 
     let nextIndex;
     if (!isReversed) {
@@ -131,7 +186,7 @@ function PlayerContent() {
     if (nextEpisode) {
       handleEpisodeClick(nextEpisode, nextIndex); // handleEpisodeClick relies on state setters, which are stable
     }
-  }, [videoData, currentEpisode, isReversed, router, searchParams]); // handleEpisodeClick is not memoized, but uses stable hooks setters. wait, handleEpisodeClick is inline too!
+  }, [episodes, currentEpisode, isReversed, router, searchParams]); // handleEpisodeClick is not memoized, but uses stable hooks setters. wait, handleEpisodeClick is inline too!
 
   return (
     <div className="min-h-screen bg-[var(--bg-color)]">
@@ -156,11 +211,14 @@ function PlayerContent() {
             <div className="lg:col-span-2 space-y-6">
               <VideoPlayer
                 playUrl={playUrl}
+                proxyUrl={proxyPlayUrl}
                 videoId={videoId || undefined}
                 currentEpisode={currentEpisode}
                 onBack={() => router.back()}
-                totalEpisodes={videoData?.episodes?.length || 1}
+                totalEpisodes={episodes.length || 1}
                 onNextEpisode={handleNextEpisode}
+                resumeTime={resumeTime}
+                onPlaybackTime={(time) => { playbackTimeRef.current = time; }}
                 isReversed={isReversed}
                 isPremium={isPremium}
               />
@@ -194,11 +252,14 @@ function PlayerContent() {
             <div className="lg:col-span-1">
               <div className="lg:sticky lg:top-32 space-y-6">
                 <EpisodeList
-                  episodes={videoData?.episodes || null}
+                  episodes={videoData ? episodes : null}
                   currentEpisode={currentEpisode}
                   isReversed={isReversed}
                   onEpisodeClick={handleEpisodeClick}
                   onToggleReverse={handleToggleReverse}
+                  lines={lines.map(line => line.code)}
+                  currentLine={currentLine}
+                  onLineChange={handleLineChange}
                 />
 
                 {/* Source Selector - only show when grouped sources available */}
@@ -212,6 +273,9 @@ function PlayerContent() {
                       params.set('id', String(newSource.id));
                       params.set('source', newSource.source);
                       params.set('title', title || '');
+                      if (workKey) {
+                        params.set('work', workKey);
+                      }
                       if (groupedSourcesParam) {
                         params.set('groupedSources', groupedSourcesParam);
                       }
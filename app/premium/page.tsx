@@ -5,6 +5,7 @@ import { SearchForm } from '@/components/search/SearchForm';
 import { NoResults } from '@/components/search/NoResults';
 import { Navbar } from '@/components/layout/Navbar';
 import { SearchResults } from '@/components/home/SearchResults';
+import { FailedSources } from '@/components/search/FailedSources';
 import { usePremiumHomePage } from '@/lib/hooks/usePremiumHomePage';
 import { PremiumContent } from '@/components/premium/PremiumContent';
 import { FavoritesSidebar } from '@/components/favorites/FavoritesSidebar';
@@ -18,6 +19,11 @@ function PremiumHomePage() {
         availableSources,
         completedSources,
         totalSources,
+        failedSources,
+        currentPage,
+        hasMore,
+        loadingMore,
+        loadMore,
         handleSearch,
         handleReset,
     } = usePremiumHomePage();
@@ -53,9 +59,20 @@ function PremiumHomePage() {
                         availableSources={availableSources}
                         loading={loading}
                         isPremium={true}
+                        page={currentPage}
+                        hasMore={hasMore}
+                        loadingMore={loadingMore}
+                        onLoadMore={loadMore}
+                        query={query}
+                        onSearch={handleSearch}
                     />
                 )}
 
+                {/* Failed Sources - Why some sources returned nothing */}
+                {hasSearched && !loading && (
+                    <FailedSources failures={failedSources} className="mt-6" />
+                )}
+
                 {/* No Results */}
                 {!loading && hasSearched && results.length === 0 && (
                     <NoResults onReset={handleReset} />
@@ -26,6 +26,11 @@ export function useSettingsPage() {
     // Display settings
     const [realtimeLatency, setRealtimeLatency] = useState(false);
     const [searchDisplayMode, setSearchDisplayMode] = useState<SearchDisplayMode>('normal');
+    const [ratingEnrichment, setRatingEnrichment] = useState(false);
+
+    // Playback settings
+    const [adFilter, setAdFilter] = useState(false);
+    const [adFilterRules, setAdFilterRules] = useState<string[]>([]);
 
     useEffect(() => {
         const settings = settingsStore.getSettings();
@@ -36,6 +41,9 @@ export function useSettingsPage() {
         setAccessPasswords(settings.accessPasswords);
         setRealtimeLatency(settings.realtimeLatency);
         setSearchDisplayMode(settings.searchDisplayMode);
+        setRatingEnrichment(settings.ratingEnrichment);
+        setAdFilter(settings.adFilter);
+        setAdFilterRules(settings.adFilterRules);
 
         // Fetch env password status
         fetch('/api/config')
@@ -279,6 +287,44 @@ export function useSettingsPage() {
         });
     };
 
+    const handleRatingEnrichmentChange = (enabled: boolean) => {
+        setRatingEnrichment(enabled);
+        const currentSettings = settingsStore.getSettings();
+        settingsStore.saveSettings({
+            ...currentSettings,
+            ratingEnrichment: enabled,
+        });
+    };
+
+    const handleAdFilterChange = (enabled: boolean) => {
+        setAdFilter(enabled);
+        const currentSettings = settingsStore.getSettings();
+        settingsStore.saveSettings({
+            ...currentSettings,
+            adFilter: enabled,
+        });
+    };
+
+    const handleAddAdFilterRule = (rule: string) => {
+        const updated = [...adFilterRules, rule];
+        setAdFilterRules(updated);
+        const currentSettings = settingsStore.getSettings();
+        settingsStore.saveSettings({
+            ...currentSettings,
+            adFilterRules: updated,
+        });
+    };
+
+    const handleRemoveAdFilterRule = (rule: string) => {
+        const updated = adFilterRules.filter(r => r !== rule);
+        setAdFilterRules(updated);
+        const currentSettings = settingsStore.getSettings();
+        settingsStore.saveSettings({
+            ...currentSettings,
+            adFilterRules: updated,
+        });
+    };
+
     const handleRestoreDefaults = () => {
         const defaults = getDefaultSources();
         handleSourcesChange(defaults);
@@ -300,6 +346,9 @@ export function useSettingsPage() {
         envPasswordSet,
         realtimeLatency,
         searchDisplayMode,
+        ratingEnrichment,
+        adFilter,
+        adFilterRules,
         isAddModalOpen,
         isExportModalOpen,
         isImportModalOpen,
@@ -329,5 +378,9 @@ export function useSettingsPage() {
         handleEditSource,
         handleRealtimeLatencyChange,
         handleSearchDisplayModeChange,
+        handleRatingEnrichmentChange,
+        handleAdFilterChange,
+        handleAddAdFilterRule,
+        handleRemoveAdFilterRule,
     };
 }
@@ -10,6 +10,7 @@ import { SortSettings } from '@/components/settings/SortSettings';
 import { DataSettings } from '@/components/settings/DataSettings';
 import { PasswordSettings } from '@/components/settings/PasswordSettings';
 import { DisplaySettings } from '@/components/settings/DisplaySettings';
+import { AdFilterSettings } from '@/components/settings/AdFilterSettings';
 import { SettingsHeader } from '@/components/settings/SettingsHeader';
 import { useSettingsPage } from './hooks/useSettingsPage';
 
@@ -22,6 +23,9 @@ export default function SettingsPage() {
     envPasswordSet,
     realtimeLatency,
     searchDisplayMode,
+    ratingEnrichment,
+    adFilter,
+    adFilterRules,
     isAddModalOpen,
     isExportModalOpen,
     isImportModalOpen,
@@ -52,6 +56,10 @@ export default function SettingsPage() {
     setEditingSource,
     handleRealtimeLatencyChange,
     handleSearchDisplayModeChange,
+    handleRatingEnrichmentChange,
+    handleAdFilterChange,
+    handleAddAdFilterRule,
+    handleRemoveAdFilterRule,
   } = useSettingsPage();
 
   return (
@@ -78,6 +86,15 @@ export default function SettingsPage() {
           onSearchDisplayModeChange={handleSearchDisplayModeChange}
         />
 
+        {/* Ad Filter */}
+        <AdFilterSettings
+          enabled={adFilter}
+          rules={adFilterRules}
+          onToggle={handleAdFilterChange}
+          onAddRule={handleAddAdFilterRule}
+          onRemoveRule={handleRemoveAdFilterRule}
+        />
+
         {/* Source Management */}
         <SourceSettings
           sources={sources}
@@ -94,6 +111,8 @@ export default function SettingsPage() {
         <SortSettings
           sortBy={sortBy}
           onSortChange={handleSortChange}
+          ratingEnrichment={ratingEnrichment}
+          onRatingEnrichmentChange={handleRatingEnrichmentChange}
         />
 
         {/* Data Management */}
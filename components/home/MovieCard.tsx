@@ -28,7 +28,7 @@ export const MovieCard = memo(function MovieCard({ movie, onMovieClick }: MovieC
 
   return (
     <Link
-      href={`/?q=${encodeURIComponent(movie.title)}`}
+      href={`/?q=${encodeURIComponent(movie.title)}&douban=${encodeURIComponent(movie.id)}`}
       onClick={(e) => {
         // Allow default behavior for modifier keys (new tab, etc.)
         if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
@@ -9,6 +9,7 @@ import { TagManager } from './TagManager';
 import { MovieGrid } from './MovieGrid';
 import { useTagManager } from './hooks/useTagManager';
 import { usePopularMovies } from './hooks/usePopularMovies';
+import { rememberDoubanSubjectId } from '@/lib/utils/douban-subject-hints';
 
 interface PopularFeaturesProps {
   onSearch?: (query: string) => void;
@@ -43,6 +44,8 @@ export function PopularFeatures({ onSearch }: PopularFeaturesProps) {
   } = usePopularMovies(selectedTag, tags, contentType);
 
   const handleMovieClick = (movie: any) => {
+    // Carry the subject id so the player can load this exact Douban subject
+    rememberDoubanSubjectId(movie.title, movie.id);
     if (onSearch) {
       onSearch(movie.title);
     }
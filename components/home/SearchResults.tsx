@@ -2,19 +2,38 @@
 import { ResultsHeader } from '@/components/search/ResultsHeader';
 import { SourceBadges } from '@/components/search/SourceBadges';
 import { TypeBadges } from '@/components/search/TypeBadges';
+import { SearchFilterChips } from '@/components/search/SearchFilterChips';
 import { VideoGrid } from '@/components/search/VideoGrid';
 import { useSourceBadges } from '@/lib/hooks/useSourceBadges';
 import { useTypeBadges } from '@/lib/hooks/useTypeBadges';
 import { Video, SourceBadge } from '@/lib/types';
+import { parseSearchQuery, getFilterTokens, removeFilterToken, formatSearchQuery, type SearchFilterToken } from '@/lib/utils/search-query';
 
 interface SearchResultsProps {
     results: Video[];
     availableSources: SourceBadge[];
     loading: boolean;
     isPremium?: boolean;
+    page?: number;
+    hasMore?: boolean;
+    loadingMore?: boolean;
+    onLoadMore?: (nextPage: number) => void;
+    query?: string; // Current query, for its structured filter chips
+    onSearch?: (query: string) => void;
 }
 
-export function SearchResults({ results, availableSources, loading, isPremium = false }: SearchResultsProps) {
+export function SearchResults({
+    results,
+    availableSources,
+    loading,
+    isPremium = false,
+    page = 1,
+    hasMore = false,
+    loadingMore = false,
+    onLoadMore,
+    query = '',
+    onSearch,
+}: SearchResultsProps) {
     // Source badges hook - filters by video source
     const {
         selectedSources,
@@ -31,6 +50,13 @@ export function SearchResults({ results, availableSources, loading, isPremium =
         toggleType,
     } = useTypeBadges(sourceFilteredVideos);
 
+    // Structured filters from the query; removing one re-runs the search without it
+    const parsedQuery = parseSearchQuery(query);
+    const filterTokens = getFilterTokens(parsedQuery.filters);
+    const removeFilter = (token: SearchFilterToken) => {
+        onSearch?.(formatSearchQuery(removeFilterToken(parsedQuery, token)));
+    };
+
     if (results.length === 0 && !loading) return null;
 
     return (
@@ -51,6 +77,15 @@ export function SearchResults({ results, availableSources, loading, isPremium =
                 />
             )}
 
+            {/* Filter Chips - year:/type:/area:/actor:/-term from the query */}
+            {onSearch && filterTokens.length > 0 && (
+                <SearchFilterChips
+                    tokens={filterTokens}
+                    onRemove={removeFilter}
+                    className="mb-6"
+                />
+            )}
+
             {/* Type Badges - Auto-collected from search results */}
             {typeBadges.length > 0 && (
                 <TypeBadges
@@ -62,7 +97,14 @@ export function SearchResults({ results, availableSources, loading, isPremium =
             )}
 
             {/* Display filtered videos (both source and type filters applied) */}
-            <VideoGrid videos={finalFilteredVideos} isPremium={isPremium} />
+            <VideoGrid
+                videos={finalFilteredVideos}
+                isPremium={isPremium}
+                page={page}
+                hasMore={hasMore && !loading}
+                loadingMore={loadingMore}
+                onLoadMore={onLoadMore}
+            />
         </div>
     );
 }
@@ -5,6 +5,7 @@ import { DesktopVideoPlayer } from './DesktopVideoPlayer';
 
 interface CustomVideoPlayerProps {
   src: string;
+  proxyUrl?: string; // Proxy link of the episode offered for copying, whichever mode is playing
   poster?: string;
   onError?: (error: string) => void;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
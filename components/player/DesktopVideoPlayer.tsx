@@ -11,6 +11,7 @@ import { DesktopOverlayWrapper } from './desktop/DesktopOverlayWrapper';
 
 interface DesktopVideoPlayerProps {
   src: string;
+  proxyUrl?: string; // Proxy link of the episode offered for copying, whichever mode is playing
   poster?: string;
   onError?: (error: string) => void;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
@@ -25,6 +26,7 @@ interface DesktopVideoPlayerProps {
 
 export function DesktopVideoPlayer({
   src,
+  proxyUrl,
   poster,
   onError,
   onTimeUpdate,
@@ -38,10 +40,11 @@ export function DesktopVideoPlayer({
   const { refs, data, actions } = useDesktopPlayerState();
 
   // Initialize HLS Player
-  useHlsPlayer({
+  const { qualityLevels, currentQualityLevel, isAutoQuality, setQuality } = useHlsPlayer({
     videoRef: refs.videoRef,
     src,
-    autoPlay: shouldAutoPlay
+    autoPlay: shouldAutoPlay,
+    onAdsStripped: (seconds) => logic.showToastNotification(`已过滤 ${Math.round(seconds)} 秒广告`),
   });
 
   const {
@@ -69,6 +72,7 @@ export function DesktopVideoPlayer({
 
   const logic = useDesktopPlayerLogic({
     src,
+    proxyUrl,
     initialTime,
     shouldAutoPlay,
     onError,
@@ -143,7 +147,7 @@ export function DesktopVideoPlayer({
         isTransitioningToNextEpisode={isTransitioningToNextEpisode}
         // More Menu Props
         showMoreMenu={data.showMoreMenu}
-        isProxied={src.includes('/api/proxy')}
+        hasProxyLink={Boolean(proxyUrl)}
         onToggleMoreMenu={() => actions.setShowMoreMenu(!data.showMoreMenu)}
         onMoreMenuMouseEnter={() => {
           if (refs.moreMenuTimeoutRef.current) {
@@ -169,6 +173,18 @@ export function DesktopVideoPlayer({
         onSpeedChange={logic.changePlaybackSpeed}
         onSpeedMenuMouseEnter={logic.clearSpeedMenuTimeout}
         onSpeedMenuMouseLeave={logic.startSpeedMenuTimeout}
+        // Quality Menu Props
+        qualityLevels={qualityLevels}
+        currentQualityLevel={currentQualityLevel}
+        isAutoQuality={isAutoQuality}
+        showQualityMenu={data.showQualityMenu}
+        onToggleQualityMenu={() => actions.setShowQualityMenu(!data.showQualityMenu)}
+        onQualityChange={(index) => {
+          setQuality(index);
+          actions.setShowQualityMenu(false);
+        }}
+        onQualityMenuMouseEnter={logic.clearQualityMenuTimeout}
+        onQualityMenuMouseLeave={logic.startQualityMenuTimeout}
         // Portal container
         containerRef={containerRef}
       />
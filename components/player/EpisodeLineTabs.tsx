@@ -0,0 +1,45 @@
+'use client';
+
+/**
+ * EpisodeLineTabs - Play line switcher shown above the episode list
+ * Following Liquid Glass design system
+ */
+
+interface EpisodeLineTabsProps {
+  lines: string[];
+  currentLine: number;
+  onLineChange: (lineIndex: number) => void;
+}
+
+export function EpisodeLineTabs({ lines, currentLine, onLineChange }: EpisodeLineTabsProps) {
+  if (lines.length <= 1) return null;
+
+  return (
+    <div
+      className="flex gap-2 overflow-x-auto pb-2 mb-3"
+      role="tablist"
+      aria-label="播放线路"
+    >
+      {lines.map((code, index) => {
+        const isCurrent = index === currentLine;
+        return (
+          <button
+            key={`${code}-${index}`}
+            onClick={() => !isCurrent && onLineChange(index)}
+            role="tab"
+            aria-selected={isCurrent}
+            className={`
+              flex-shrink-0 px-3 py-1.5 rounded-[var(--radius-full)] text-sm font-medium transition-all duration-200 cursor-pointer
+              ${isCurrent
+                ? 'bg-[var(--accent-color)] text-white'
+                : 'bg-[var(--glass-bg)] hover:bg-[var(--glass-hover)] text-[var(--text-color)] border border-[var(--glass-border)]'
+              }
+            `}
+          >
+            {code || `线路${index + 1}`}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/Badge';
 import { Icons } from '@/components/ui/Icon';
 import { useKeyboardNavigation } from '@/lib/hooks/useKeyboardNavigation';
 import { settingsStore } from '@/lib/store/settings-store';
+import { EpisodeLineTabs } from './EpisodeLineTabs';
 
 interface Episode {
   name?: string;
@@ -18,6 +19,10 @@ interface EpisodeListProps {
   isReversed?: boolean;
   onEpisodeClick: (episode: Episode, index: number) => void;
   onToggleReverse?: (reversed: boolean) => void;
+  // Play lines (codes) offered by the source
+  lines?: string[];
+  currentLine?: number;
+  onLineChange?: (lineIndex: number) => void;
 }
 
 export function EpisodeList({
@@ -25,7 +30,10 @@ export function EpisodeList({
   currentEpisode,
   isReversed = false,
   onEpisodeClick,
-  onToggleReverse
+  onToggleReverse,
+  lines = [],
+  currentLine = 0,
+  onLineChange,
 }: EpisodeListProps) {
   const listRef = useRef<HTMLDivElement>(null);
   const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
@@ -101,6 +109,14 @@ export function EpisodeList({
         )}
       </h3>
 
+      {onLineChange && (
+        <EpisodeLineTabs
+          lines={lines}
+          currentLine={currentLine}
+          onLineChange={onLineChange}
+        />
+      )}
+
       <div
         ref={listRef}
         className="max-h-[400px] sm:max-h-[600px] overflow-y-auto space-y-2 pr-2"
@@ -4,6 +4,8 @@ import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Icons } from '@/components/ui/Icon';
 import { getSourceName } from '@/lib/utils/source-names';
+import { formatRating } from '@/lib/utils/rating';
+import { useDoubanSubject } from '@/lib/hooks/useDoubanSubject';
 
 interface VideoMetadataProps {
   videoData: any;
@@ -12,13 +14,22 @@ interface VideoMetadataProps {
 }
 
 export function VideoMetadata({ videoData, source, title }: VideoMetadataProps) {
+  // Douban metadata is preferred; the source's own fields fill whatever it lacks
+  const { subject } = useDoubanSubject(videoData?.vod_name || title, videoData?.vod_year);
+
+  const cover = subject?.cover || videoData?.vod_pic;
+  const summary = subject?.summary || videoData?.vod_content?.replace(/<[^>]*>/g, '');
+  const cast = subject?.cast.length ? subject.cast.join(' / ') : videoData?.vod_actor;
+  const directors = subject?.directors.length ? subject.directors.join(' / ') : videoData?.vod_director;
+
   return (
     <Card hover={false}>
       <div className="flex flex-col sm:flex-row items-start gap-4">
-        {videoData?.vod_pic && (
+        {cover && (
           <img
-            src={videoData.vod_pic}
-            alt={videoData.vod_name}
+            src={cover}
+            alt={videoData?.vod_name || title || ''}
+            referrerPolicy="no-referrer"
             className="w-24 h-36 sm:w-32 sm:h-48 object-cover rounded-[var(--radius-2xl)] border border-[var(--glass-border)]"
           />
         )}
@@ -33,13 +44,22 @@ export function VideoMetadata({ videoData, source, title }: VideoMetadataProps)
                 {getSourceName(source)}
               </Badge>
             )}
+            {subject?.rating !== undefined && (
+              <Badge variant="secondary">
+                <Icons.Star size={14} className="mr-1 text-yellow-400 fill-yellow-400" />
+                {formatRating(subject.rating)}
+              </Badge>
+            )}
             {videoData?.type_name && (
               <Badge variant="secondary">{videoData.type_name}</Badge>
             )}
-            {videoData?.vod_year && (
+            {subject?.genres.map(genre => (
+              <Badge key={genre} variant="secondary">{genre}</Badge>
+            ))}
+            {(subject?.year || videoData?.vod_year) && (
               <Badge variant="secondary">
                 <Icons.Calendar size={14} className="mr-1" />
-                {videoData.vod_year}
+                {subject?.year || videoData.vod_year}
               </Badge>
             )}
             {videoData?.vod_area && (
@@ -49,21 +69,38 @@ export function VideoMetadata({ videoData, source, title }: VideoMetadataProps)
               </Badge>
             )}
           </div>
-          {videoData?.vod_content && (
-            <p className="text-sm sm:text-base text-[var(--text-secondary)]">
-              {videoData.vod_content.replace(/<[^>]*>/g, '')}
+          {summary && (
+            <p className="text-sm sm:text-base text-[var(--text-secondary)] whitespace-pre-line">
+              {summary}
             </p>
           )}
-          {videoData?.vod_actor && (
+          {cast && (
             <p className="text-xs sm:text-sm text-[var(--text-tertiary)] mt-2">
               <span className="font-semibold">主演：</span>
-              {videoData.vod_actor}
+              {cast}
             </p>
           )}
-          {videoData?.vod_director && (
+          {directors && (
             <p className="text-xs sm:text-sm text-[var(--text-tertiary)] mt-1">
               <span className="font-semibold">导演：</span>
-              {videoData.vod_director}
+              {directors}
+            </p>
+          )}
+          {(subject || videoData) && (
+            <p className="text-xs text-[var(--text-tertiary)] mt-3">
+              资料来源：
+              {subject ? (
+                <a
+                  href={subject.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[var(--accent-color)] hover:underline"
+                >
+                  豆瓣
+                </a>
+              ) : (
+                '视频源'
+              )}
             </p>
           )}
         </div>
@@ -8,9 +8,14 @@ import { settingsStore } from '@/lib/store/settings-store';
 import { CustomVideoPlayer } from './CustomVideoPlayer';
 import { VideoPlayerError } from './VideoPlayerError';
 import { VideoPlayerEmpty } from './VideoPlayerEmpty';
+import { buildProxyUrl } from '@/lib/utils/proxy-url';
+import { buildAdFilterParams } from '@/lib/utils/hls-ad-filter';
+import type { AdFilterOptions } from '@/lib/types';
 
 interface VideoPlayerProps {
   playUrl: string;
+  // Proxy entry URL for playUrl, signed when the server signs proxy requests; also offered for copying
+  proxyUrl?: string;
   videoId?: string;
   currentEpisode: number;
   onBack: () => void;
@@ -19,20 +24,31 @@ interface VideoPlayerProps {
   onNextEpisode?: () => void;
   isReversed?: boolean;
   isPremium?: boolean;
+  // Position to resume from instead of saved history (e.g. after a line switch)
+  resumeTime?: number;
+  onPlaybackTime?: (currentTime: number) => void;
 }
 
 export function VideoPlayer({
   playUrl,
+  proxyUrl,
   videoId,
   currentEpisode,
   onBack,
   totalEpisodes,
   onNextEpisode,
   isReversed = false,
-  isPremium = false
+  isPremium = false,
+  resumeTime = 0,
+  onPlaybackTime
 }: VideoPlayerProps) {
   const [videoError, setVideoError] = useState<string>('');
-  const [useProxy, setUseProxy] = useState(false);
+  // Ads can only be stripped by the proxy, so the filter starts playback in proxy mode
+  const [adFilter] = useState<AdFilterOptions | null>(() => {
+    const settings = settingsStore.getSettings();
+    return settings.adFilter ? { rules: settings.adFilterRules } : null;
+  });
+  const [useProxy, setUseProxy] = useState(adFilter !== null);
   const [shouldAutoPlay, setShouldAutoPlay] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
   const MAX_MANUAL_RETRIES = 20;
@@ -96,6 +112,7 @@ export function VideoPlayer({
     // Always track current time for beforeunload
     currentTimeRef.current = currentTime;
     durationRef.current = duration;
+    onPlaybackTime?.(currentTime);
 
     if (!videoId || !playUrl || duration === 0) return;
 
@@ -105,7 +122,7 @@ export function VideoPlayer({
       lastSaveTimeRef.current = now;
       saveProgress(currentTime, duration);
     }
-  }, [videoId, playUrl, saveProgress]);
+  }, [videoId, playUrl, saveProgress, onPlaybackTime]);
 
   // Save on page leave/refresh
   useEffect(() => {
@@ -154,8 +171,9 @@ export function VideoPlayer({
     setUseProxy(prev => !prev);
   };
 
+  const adFilterParam = adFilter ? `&${buildAdFilterParams(adFilter)}` : '';
   const finalPlayUrl = useProxy
-    ? `/api/proxy?url=${encodeURIComponent(playUrl)}&retry=${retryCount}` // Add retry param to force fresh request
+    ? `${proxyUrl || buildProxyUrl('', playUrl, source)}${adFilterParam}&retry=${retryCount}` // Add retry param to force fresh request
     : playUrl;
 
   if (!playUrl) {
@@ -187,9 +205,10 @@ export function VideoPlayer({
         <CustomVideoPlayer
           key={`${useProxy ? 'proxy' : 'direct'}-${retryCount}`} // Only remount when switching modes or retrying, NOT when changing episodes
           src={finalPlayUrl}
+          proxyUrl={proxyUrl}
           onError={handleVideoError}
           onTimeUpdate={handleTimeUpdate}
-          initialTime={getSavedProgress()}
+          initialTime={resumeTime > 0 ? resumeTime : getSavedProgress()}
           shouldAutoPlay={shouldAutoPlay}
           totalEpisodes={totalEpisodes}
           currentEpisodeIndex={currentEpisode}
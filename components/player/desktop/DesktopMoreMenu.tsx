@@ -8,7 +8,7 @@ import { createPortal } from 'react-dom';
 
 interface DesktopMoreMenuProps {
     showMoreMenu: boolean;
-    isProxied?: boolean;
+    hasProxyLink?: boolean;
     onToggleMoreMenu: () => void;
     onMouseEnter: () => void;
     onMouseLeave: () => void;
@@ -18,7 +18,7 @@ interface DesktopMoreMenuProps {
 
 export function DesktopMoreMenu({
     showMoreMenu,
-    isProxied = false,
+    hasProxyLink = false,
     onToggleMoreMenu,
     onMouseEnter,
     onMouseLeave,
@@ -80,7 +80,7 @@ export function DesktopMoreMenu({
             onClick={(e) => e.stopPropagation()}
         >
             {/* Copy Link Options */}
-            {isProxied ? (
+            {hasProxyLink ? (
                 <>
                     <button
                         onClick={() => onCopyLink('original')}
@@ -3,6 +3,8 @@ import { Icons } from '@/components/ui/Icon';
 
 import { DesktopMoreMenu } from './DesktopMoreMenu';
 import { DesktopSpeedMenu } from './DesktopSpeedMenu';
+import { DesktopQualityMenu } from './DesktopQualityMenu';
+import type { QualityLevel } from '../hooks/useHlsPlayer';
 
 interface DesktopOverlayProps {
     isLoading: boolean;
@@ -21,7 +23,7 @@ interface DesktopOverlayProps {
     onSkipForward: () => void;
     onSkipBackward: () => void;
     showMoreMenu: boolean;
-    isProxied: boolean;
+    hasProxyLink: boolean;
     onToggleMoreMenu: () => void;
     onMoreMenuMouseEnter: () => void;
     onMoreMenuMouseLeave: () => void;
@@ -34,6 +36,15 @@ interface DesktopOverlayProps {
     onSpeedChange: (speed: number) => void;
     onSpeedMenuMouseEnter: () => void;
     onSpeedMenuMouseLeave: () => void;
+    // Quality Menu Props
+    qualityLevels: QualityLevel[];
+    currentQualityLevel: number;
+    isAutoQuality: boolean;
+    showQualityMenu: boolean;
+    onToggleQualityMenu: () => void;
+    onQualityChange: (index: number) => void;
+    onQualityMenuMouseEnter: () => void;
+    onQualityMenuMouseLeave: () => void;
     containerRef: React.RefObject<HTMLDivElement | null>;
 }
 
@@ -54,7 +65,7 @@ export function DesktopOverlay({
     onSkipBackward,
     showControls,
     showMoreMenu,
-    isProxied,
+    hasProxyLink,
     onToggleMoreMenu,
     onMoreMenuMouseEnter,
     onMoreMenuMouseLeave,
@@ -66,6 +77,14 @@ export function DesktopOverlay({
     onSpeedChange,
     onSpeedMenuMouseEnter,
     onSpeedMenuMouseLeave,
+    qualityLevels,
+    currentQualityLevel,
+    isAutoQuality,
+    showQualityMenu,
+    onToggleQualityMenu,
+    onQualityChange,
+    onQualityMenuMouseEnter,
+    onQualityMenuMouseLeave,
     containerRef,
 }: DesktopOverlayProps) {
     // Show navigation buttons when controls are visible or when paused (controls usually show when paused anyway)
@@ -77,7 +96,7 @@ export function DesktopOverlay({
             <div className={`absolute top-6 left-6 z-50 transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0'}`} style={{ pointerEvents: showControls ? 'auto' : 'none' }}>
                 <DesktopMoreMenu
                     showMoreMenu={showMoreMenu}
-                    isProxied={isProxied}
+                    hasProxyLink={hasProxyLink}
                     onToggleMoreMenu={onToggleMoreMenu}
                     onMouseEnter={onMoreMenuMouseEnter}
                     onMouseLeave={onMoreMenuMouseLeave}
@@ -86,8 +105,21 @@ export function DesktopOverlay({
                 />
             </div>
 
-            {/* Speed Menu (Top Right) */}
-            <div className={`absolute top-6 right-6 z-50 transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0'}`} style={{ pointerEvents: showControls ? 'auto' : 'none' }}>
+            {/* Quality and Speed Menus (Top Right) */}
+            <div className={`absolute top-6 right-6 z-50 flex items-center gap-3 transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0'}`} style={{ pointerEvents: showControls ? 'auto' : 'none' }}>
+                {qualityLevels.length > 1 && (
+                    <DesktopQualityMenu
+                        showQualityMenu={showQualityMenu}
+                        levels={qualityLevels}
+                        currentLevel={currentQualityLevel}
+                        isAuto={isAutoQuality}
+                        onQualityChange={onQualityChange}
+                        onToggleQualityMenu={onToggleQualityMenu}
+                        onMouseEnter={onQualityMenuMouseEnter}
+                        onMouseLeave={onQualityMenuMouseLeave}
+                        containerRef={containerRef}
+                    />
+                )}
                 <DesktopSpeedMenu
                     showSpeedMenu={showSpeedMenu}
                     playbackRate={playbackRate}
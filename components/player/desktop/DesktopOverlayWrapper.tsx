@@ -1,6 +1,7 @@
 import React from 'react';
 import { DesktopOverlay } from './DesktopOverlay';
 import { useDesktopPlayerState } from '../hooks/useDesktopPlayerState';
+import type { QualityLevel } from '../hooks/useHlsPlayer';
 
 interface DesktopOverlayWrapperProps {
     data: ReturnType<typeof useDesktopPlayerState>['data'];
@@ -11,7 +12,7 @@ interface DesktopOverlayWrapperProps {
     onSkipBackward: () => void;
     isTransitioningToNextEpisode?: boolean;
     showMoreMenu: boolean;
-    isProxied: boolean;
+    hasProxyLink: boolean;
     onToggleMoreMenu: () => void;
     onMoreMenuMouseEnter: () => void;
     onMoreMenuMouseLeave: () => void;
@@ -24,6 +25,15 @@ interface DesktopOverlayWrapperProps {
     onSpeedChange: (speed: number) => void;
     onSpeedMenuMouseEnter: () => void;
     onSpeedMenuMouseLeave: () => void;
+    // Quality Menu Props
+    qualityLevels: QualityLevel[];
+    currentQualityLevel: number;
+    isAutoQuality: boolean;
+    showQualityMenu: boolean;
+    onToggleQualityMenu: () => void;
+    onQualityChange: (index: number) => void;
+    onQualityMenuMouseEnter: () => void;
+    onQualityMenuMouseLeave: () => void;
     containerRef: React.RefObject<HTMLDivElement | null>;
 }
 
@@ -36,7 +46,7 @@ export function DesktopOverlayWrapper({
     onSkipBackward,
     isTransitioningToNextEpisode = false,
     showMoreMenu,
-    isProxied,
+    hasProxyLink,
     onToggleMoreMenu,
     onMoreMenuMouseEnter,
     onMoreMenuMouseLeave,
@@ -48,6 +58,14 @@ export function DesktopOverlayWrapper({
     onSpeedChange,
     onSpeedMenuMouseEnter,
     onSpeedMenuMouseLeave,
+    qualityLevels,
+    currentQualityLevel,
+    isAutoQuality,
+    showQualityMenu,
+    onToggleQualityMenu,
+    onQualityChange,
+    onQualityMenuMouseEnter,
+    onQualityMenuMouseLeave,
     containerRef,
 }: DesktopOverlayWrapperProps) {
     const {
@@ -81,7 +99,7 @@ export function DesktopOverlayWrapper({
             onSkipForward={onSkipForward}
             onSkipBackward={onSkipBackward}
             showMoreMenu={showMoreMenu}
-            isProxied={isProxied}
+            hasProxyLink={hasProxyLink}
             onToggleMoreMenu={onToggleMoreMenu}
             onMoreMenuMouseEnter={onMoreMenuMouseEnter}
             onMoreMenuMouseLeave={onMoreMenuMouseLeave}
@@ -93,6 +111,14 @@ export function DesktopOverlayWrapper({
             onSpeedChange={onSpeedChange}
             onSpeedMenuMouseEnter={onSpeedMenuMouseEnter}
             onSpeedMenuMouseLeave={onSpeedMenuMouseLeave}
+            qualityLevels={qualityLevels}
+            currentQualityLevel={currentQualityLevel}
+            isAutoQuality={isAutoQuality}
+            showQualityMenu={showQualityMenu}
+            onToggleQualityMenu={onToggleQualityMenu}
+            onQualityChange={onQualityChange}
+            onQualityMenuMouseEnter={onQualityMenuMouseEnter}
+            onQualityMenuMouseLeave={onQualityMenuMouseLeave}
             containerRef={containerRef}
         />
     );
@@ -0,0 +1,105 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import type { QualityLevel } from '../hooks/useHlsPlayer';
+
+interface DesktopQualityMenuProps {
+    showQualityMenu: boolean;
+    levels: QualityLevel[];
+    currentLevel: number;
+    isAuto: boolean;
+    onQualityChange: (index: number) => void;
+    onToggleQualityMenu: () => void;
+    onMouseEnter: () => void;
+    onMouseLeave: () => void;
+    containerRef: React.RefObject<HTMLDivElement | null>;
+}
+
+export function DesktopQualityMenu({
+    showQualityMenu,
+    levels,
+    currentLevel,
+    isAuto,
+    onQualityChange,
+    onToggleQualityMenu,
+    onMouseEnter,
+    onMouseLeave,
+    containerRef
+}: DesktopQualityMenuProps) {
+    const buttonRef = React.useRef<HTMLButtonElement>(null);
+    const [menuPosition, setMenuPosition] = React.useState({ top: 0, left: 0 });
+    // Captured on toggle so render never reads the container ref
+    const [portalTarget, setPortalTarget] = React.useState<HTMLElement | null>(null);
+
+    const playingLabel = levels.find(level => level.index === currentLevel)?.label;
+    // Highest resolution first
+    const sortedLevels = [...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+
+    const handleToggle = () => {
+        if (!showQualityMenu && buttonRef.current && containerRef.current) {
+            const buttonRect = buttonRef.current.getBoundingClientRect();
+            const containerRect = containerRef.current.getBoundingClientRect();
+
+            setMenuPosition({
+                top: buttonRect.bottom - containerRect.top + 10,
+                left: buttonRect.right - containerRect.left
+            });
+            setPortalTarget(containerRef.current);
+        }
+        onToggleQualityMenu();
+    };
+
+    const itemClass = (active: boolean) => `w-full px-4 py-1.5 rounded-[var(--radius-2xl)] text-sm font-medium text-left whitespace-nowrap transition-colors ${active
+        ? 'bg-[var(--accent-color)] text-white'
+        : 'text-[var(--text-color)] hover:bg-[color-mix(in_srgb,var(--accent-color)_15%,transparent)]'
+        }`;
+
+    const MenuContent = (
+        <div
+            className="absolute z-[9999] bg-[var(--glass-bg)] backdrop-blur-[25px] saturate-[180%] rounded-[var(--radius-2xl)] border border-[var(--glass-border)] shadow-[var(--shadow-md)] p-1.5 w-fit min-w-[4.5rem]"
+            style={{
+                top: menuPosition.top,
+                left: menuPosition.left,
+                transform: 'translateX(-100%)', // Align right edge
+            }}
+            onMouseEnter={onMouseEnter}
+            onMouseLeave={onMouseLeave}
+        >
+            <button onClick={() => onQualityChange(-1)} className={itemClass(isAuto)}>
+                自动{isAuto && playingLabel ? ` (${playingLabel})` : ''}
+            </button>
+            {sortedLevels.map((level) => (
+                <button
+                    key={level.index}
+                    onClick={() => onQualityChange(level.index)}
+                    className={itemClass(!isAuto && currentLevel === level.index)}
+                >
+                    {level.label}
+                    {level.height > 0 && level.bitrate > 0 && (
+                        <span className="ml-2 text-xs opacity-70">
+                            {(level.bitrate / 1000000).toFixed(1)} Mbps
+                        </span>
+                    )}
+                </button>
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="relative">
+            <button
+                ref={buttonRef}
+                onClick={handleToggle}
+                onMouseEnter={onMouseEnter}
+                onMouseLeave={onMouseLeave}
+                className="group flex items-center justify-center w-12 h-12 rounded-full bg-black/40 hover:bg-black/60 backdrop-blur-sm transition-all duration-300 hover:scale-110 active:scale-95 text-white/90 font-medium text-xs"
+                aria-label="清晰度"
+                title={isAuto ? '清晰度：自动' : '清晰度'}
+            >
+                {playingLabel || '自动'}
+            </button>
+
+            {/* Quality Menu (Portal) */}
+            {showQualityMenu && typeof document !== 'undefined' && createPortal(MenuContent, portalTarget || document.body)}
+        </div>
+    );
+}
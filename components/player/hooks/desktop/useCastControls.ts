@@ -1,6 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useMemo } from 'react';
+import { detectFormatFromUrl } from '@/lib/utils/media-format';
 
 interface UseCastControlsProps {
     src: string;
@@ -90,9 +91,12 @@ export function useCastControls({
         if (!session) return;
 
         const mediaInfo = new window.chrome.cast.media.MediaInfo(src, 'video/mp4');
-        // Handle HLS specifically if possible, though DEFAULT_MEDIA_RECEIVER supports it
-        if (src.includes('.m3u8')) {
+        // Handle HLS and DASH specifically if possible, though DEFAULT_MEDIA_RECEIVER supports them
+        const format = detectFormatFromUrl(src);
+        if (format === 'hls' || src.includes('.m3u8')) {
             mediaInfo.contentType = 'application/x-mpegurl';
+        } else if (format === 'dash') {
+            mediaInfo.contentType = 'application/dash+xml';
         }
 
         const request = new window.chrome.cast.media.LoadRequest(mediaInfo);
@@ -4,12 +4,15 @@ interface UseControlsVisibilityProps {
     isPlaying: boolean;
     showControls: boolean;
     showSpeedMenu: boolean;
+    showQualityMenu: boolean;
     showMoreMenu: boolean;
     setShowControls: (show: boolean) => void;
     setShowSpeedMenu: (show: boolean) => void;
+    setShowQualityMenu: (show: boolean) => void;
     setShowMoreMenu: (show: boolean) => void;
     controlsTimeoutRef: React.MutableRefObject<NodeJS.Timeout | null>;
     speedMenuTimeoutRef: React.MutableRefObject<NodeJS.Timeout | null>;
+    qualityMenuTimeoutRef: React.MutableRefObject<NodeJS.Timeout | null>;
     mouseMoveThrottleRef: React.MutableRefObject<NodeJS.Timeout | null>;
 }
 
@@ -17,12 +20,15 @@ export function useControlsVisibility({
     isPlaying,
     showControls,
     showSpeedMenu,
+    showQualityMenu,
     showMoreMenu,
     setShowControls,
     setShowSpeedMenu,
+    setShowQualityMenu,
     setShowMoreMenu,
     controlsTimeoutRef,
     speedMenuTimeoutRef,
+    qualityMenuTimeoutRef,
     mouseMoveThrottleRef
 }: UseControlsVisibilityProps) {
     // Shared hide controls logic
@@ -31,11 +37,11 @@ export function useControlsVisibility({
             clearTimeout(controlsTimeoutRef.current);
         }
         controlsTimeoutRef.current = setTimeout(() => {
-            if (isPlaying && !showSpeedMenu && !showMoreMenu) {
+            if (isPlaying && !showSpeedMenu && !showQualityMenu && !showMoreMenu) {
                 setShowControls(false);
             }
         }, 3000);
-    }, [isPlaying, showSpeedMenu, showMoreMenu, setShowControls, controlsTimeoutRef]);
+    }, [isPlaying, showSpeedMenu, showQualityMenu, showMoreMenu, setShowControls, controlsTimeoutRef]);
 
     // Force controls to show when paused
     useEffect(() => {
@@ -51,7 +57,7 @@ export function useControlsVisibility({
     }, [isPlaying, setShowControls, hideControls, controlsTimeoutRef]);
 
     useEffect(() => {
-        if (!isPlaying || showSpeedMenu || showMoreMenu) {
+        if (!isPlaying || showSpeedMenu || showQualityMenu || showMoreMenu) {
             if (controlsTimeoutRef.current) {
                 clearTimeout(controlsTimeoutRef.current);
             }
@@ -65,7 +71,7 @@ export function useControlsVisibility({
                 clearTimeout(controlsTimeoutRef.current);
             }
         };
-    }, [isPlaying, showSpeedMenu, setShowControls, controlsTimeoutRef]);
+    }, [isPlaying, showSpeedMenu, showQualityMenu, setShowControls, controlsTimeoutRef]);
 
     const handleMouseMove = useCallback(() => {
         if (mouseMoveThrottleRef.current) return;
@@ -107,11 +113,37 @@ export function useControlsVisibility({
         return () => clearSpeedMenuTimeout();
     }, [showSpeedMenu, startSpeedMenuTimeout, clearSpeedMenuTimeout]);
 
+    const startQualityMenuTimeout = useCallback(() => {
+        if (qualityMenuTimeoutRef.current) {
+            clearTimeout(qualityMenuTimeoutRef.current);
+        }
+        qualityMenuTimeoutRef.current = setTimeout(() => {
+            setShowQualityMenu(false);
+        }, 1500);
+    }, [qualityMenuTimeoutRef, setShowQualityMenu]);
+
+    const clearQualityMenuTimeout = useCallback(() => {
+        if (qualityMenuTimeoutRef.current) {
+            clearTimeout(qualityMenuTimeoutRef.current);
+        }
+    }, [qualityMenuTimeoutRef]);
+
+    useEffect(() => {
+        if (showQualityMenu) {
+            startQualityMenuTimeout();
+        } else {
+            clearQualityMenuTimeout();
+        }
+        return () => clearQualityMenuTimeout();
+    }, [showQualityMenu, startQualityMenuTimeout, clearQualityMenuTimeout]);
+
     const visibilityActions = useMemo(() => ({
         handleMouseMove,
         startSpeedMenuTimeout,
-        clearSpeedMenuTimeout
-    }), [handleMouseMove, startSpeedMenuTimeout, clearSpeedMenuTimeout]);
+        clearSpeedMenuTimeout,
+        startQualityMenuTimeout,
+        clearQualityMenuTimeout
+    }), [handleMouseMove, startSpeedMenuTimeout, clearSpeedMenuTimeout, startQualityMenuTimeout, clearQualityMenuTimeout]);
 
     return visibilityActions;
 }
@@ -15,6 +15,7 @@ type DesktopPlayerState = ReturnType<typeof useDesktopPlayerState>;
 
 interface UseDesktopPlayerLogicProps {
     src: string;
+    proxyUrl?: string;
     initialTime: number;
     shouldAutoPlay: boolean;
     onError?: (error: string) => void;
@@ -26,6 +27,7 @@ interface UseDesktopPlayerLogicProps {
 
 export function useDesktopPlayerLogic({
     src,
+    proxyUrl,
     initialTime,
     shouldAutoPlay,
     onError,
@@ -36,7 +38,7 @@ export function useDesktopPlayerLogic({
 }: UseDesktopPlayerLogicProps) {
     const {
         videoRef, containerRef, progressBarRef, volumeBarRef,
-        controlsTimeoutRef, speedMenuTimeoutRef, skipForwardTimeoutRef,
+        controlsTimeoutRef, speedMenuTimeoutRef, qualityMenuTimeoutRef, skipForwardTimeoutRef,
         skipBackwardTimeoutRef, volumeBarTimeoutRef, isDraggingProgressRef,
         isDraggingVolumeRef, mouseMoveThrottleRef, toastTimeoutRef
     } = refs;
@@ -52,6 +54,7 @@ export function useDesktopPlayerLogic({
         isLoading,
         playbackRate,
         showSpeedMenu,
+        showQualityMenu,
         isPiPSupported,
         isAirPlaySupported,
         skipForwardAmount,
@@ -72,6 +75,7 @@ export function useDesktopPlayerLogic({
         setIsLoading,
         setPlaybackRate,
         setShowSpeedMenu,
+        setShowQualityMenu,
         setIsPiPSupported,
         setIsAirPlaySupported,
         setSkipForwardAmount,
@@ -121,9 +125,9 @@ export function useDesktopPlayerLogic({
     });
 
     const controlsVisibility = useControlsVisibility({
-        isPlaying, showControls, showSpeedMenu, showMoreMenu,
-        setShowControls, setShowSpeedMenu, setShowMoreMenu,
-        controlsTimeoutRef, speedMenuTimeoutRef, mouseMoveThrottleRef
+        isPlaying, showControls, showSpeedMenu, showQualityMenu, showMoreMenu,
+        setShowControls, setShowSpeedMenu, setShowQualityMenu, setShowMoreMenu,
+        controlsTimeoutRef, speedMenuTimeoutRef, qualityMenuTimeoutRef, mouseMoveThrottleRef
     });
 
     const utilities = useUtilities({
@@ -168,14 +172,22 @@ export function useDesktopPlayerLogic({
         skipBackward: skipControls.skipBackward,
         changePlaybackSpeed: playbackControls.changePlaybackSpeed,
         handleCopyLink: (type: 'original' | 'proxy' = 'original') => {
-            const urlToCopy = getCopyUrl(src, type);
-            utilities.handleCopyLink(urlToCopy);
+            const urlToCopy = getCopyUrl(src, type, proxyUrl);
+            if (urlToCopy) {
+                utilities.handleCopyLink(urlToCopy);
+            } else {
+                utilities.showToastNotification('暂无可用的代理链接');
+            }
         },
+        showToastNotification: utilities.showToastNotification,
         startSpeedMenuTimeout: controlsVisibility.startSpeedMenuTimeout,
         clearSpeedMenuTimeout: controlsVisibility.clearSpeedMenuTimeout,
+        startQualityMenuTimeout: controlsVisibility.startQualityMenuTimeout,
+        clearQualityMenuTimeout: controlsVisibility.clearQualityMenuTimeout,
         formatTime: playbackControls.formatTime
     }), [
         src,
+        proxyUrl,
         controlsVisibility,
         playbackControls,
         progressControls,
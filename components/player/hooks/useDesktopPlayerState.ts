@@ -9,6 +9,7 @@ export function useDesktopPlayerState() {
     // Refs for timeouts and tracking
     const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const speedMenuTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const qualityMenuTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const skipForwardTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const skipBackwardTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const volumeBarTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -35,6 +36,7 @@ export function useDesktopPlayerState() {
         return 1;
     });
     const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+    const [showQualityMenu, setShowQualityMenu] = useState(false);
     const [isPiPSupported, setIsPiPSupported] = useState(false);
     const [isAirPlaySupported, setIsAirPlaySupported] = useState(false);
     const [isCastAvailable, setIsCastAvailable] = useState(false);
@@ -57,6 +59,7 @@ export function useDesktopPlayerState() {
         volumeBarRef,
         controlsTimeoutRef,
         speedMenuTimeoutRef,
+        qualityMenuTimeoutRef,
         skipForwardTimeoutRef,
         skipBackwardTimeoutRef,
         volumeBarTimeoutRef,
@@ -78,6 +81,7 @@ export function useDesktopPlayerState() {
         isLoading,
         playbackRate,
         showSpeedMenu,
+        showQualityMenu,
         isPiPSupported,
         isAirPlaySupported,
         isCastAvailable,
@@ -94,7 +98,7 @@ export function useDesktopPlayerState() {
         showMoreMenu
     }), [
         isPlaying, currentTime, duration, volume, isMuted, isFullscreen,
-        showControls, isLoading, playbackRate, showSpeedMenu, isPiPSupported,
+        showControls, isLoading, playbackRate, showSpeedMenu, showQualityMenu, isPiPSupported,
         isAirPlaySupported, isCastAvailable, isCasting, skipForwardAmount,
         skipBackwardAmount, showSkipForwardIndicator, showSkipBackwardIndicator,
         isSkipForwardAnimatingOut, isSkipBackwardAnimatingOut, showVolumeBar,
@@ -112,6 +116,7 @@ export function useDesktopPlayerState() {
         setIsLoading,
         setPlaybackRate,
         setShowSpeedMenu,
+        setShowQualityMenu,
         setIsPiPSupported,
         setIsAirPlaySupported,
         setIsCastAvailable,
@@ -1,5 +1,27 @@
-import { useEffect, useRef } from 'react';
-import Hls from 'hls.js';
+import { useEffect, useRef, useState, useCallback } from 'react';
+import Hls, { type Level } from 'hls.js';
+import { settingsStore } from '@/lib/store/settings-store';
+import { detectFormatFromUrl, probeMediaFormat, type MediaFormat } from '@/lib/utils/media-format';
+import { startMediaEngine } from '../utils/mediaEngines';
+
+export interface QualityLevel {
+    index: number;
+    height: number;
+    bitrate: number;
+    label: string;
+}
+
+interface QualityState {
+    src: string; // Levels belong to this source only
+    levels: QualityLevel[];
+    currentLevel: number; // Level currently playing, -1 before the first switch
+    isAuto: boolean;
+}
+
+interface ProbedFormat {
+    src: string;
+    format: MediaFormat;
+}
 
 interface UseHlsPlayerProps {
     videoRef: React.RefObject<HTMLVideoElement | null>;
@@ -7,20 +29,91 @@ interface UseHlsPlayerProps {
     autoPlay?: boolean;
     onAutoPlayPrevented?: (error: Error) => void;
     onError?: (message: string) => void;
+    onAdsStripped?: (seconds: number) => void; // Ad time removed by the proxy's ad filter
 }
 
+/**
+ * Read the ad filter's report from a playlist response (xhr or fetch loader)
+ */
+function getStrippedSeconds(networkDetails: unknown): number {
+    let header: string | null = null;
+    if (typeof XMLHttpRequest !== 'undefined' && networkDetails instanceof XMLHttpRequest) {
+        header = networkDetails.getResponseHeader('X-Ad-Stripped-Seconds');
+    } else if (typeof Response !== 'undefined' && networkDetails instanceof Response) {
+        header = networkDetails.headers.get('X-Ad-Stripped-Seconds');
+    }
+    return parseFloat(header || '') || 0;
+}
+
+function formatBitrate(bitrate: number): string {
+    return bitrate >= 1000000 ? `${(bitrate / 1000000).toFixed(1)} Mbps` : `${Math.round(bitrate / 1000)} Kbps`;
+}
+
+function toQualityLevels(levels: Level[]): QualityLevel[] {
+    return levels.map((level, index) => ({
+        index,
+        height: level.height || 0,
+        bitrate: level.bitrate || 0,
+        label: level.height ? `${level.height}P` : formatBitrate(level.bitrate || 0),
+    }));
+}
+
+/**
+ * Highest level not above the preferred height, or the lowest one when all are above it
+ * @returns -1 for automatic switching
+ */
+function pickPreferredLevel(levels: QualityLevel[], preferredHeight: number): number {
+    if (!preferredHeight || levels.length < 2 || levels.some(level => !level.height)) return -1;
+    const byQuality = [...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+    return (byQuality.find(level => level.height <= preferredHeight) || byQuality[byQuality.length - 1]).index;
+}
+
+/**
+ * Play src with the engine its format needs: hls.js or native HLS, an FLV demuxer,
+ * dash.js, or the browser itself for progressive files
+ */
 export function useHlsPlayer({
     videoRef,
     src,
     autoPlay = false,
     onAutoPlayPrevented,
-    onError
+    onError,
+    onAdsStripped
 }: UseHlsPlayerProps) {
     const hlsRef = useRef<Hls | null>(null);
+    const [qualityState, setQualityState] = useState<QualityState>({
+        src: '',
+        levels: [],
+        currentLevel: -1,
+        isAuto: true,
+    });
+    // Kept in a ref so a new callback doesn't recreate the HLS instance
+    const onAdsStrippedRef = useRef(onAdsStripped);
+
+    // Format of URLs without a known extension, found by probing the server
+    const [probedFormat, setProbedFormat] = useState<ProbedFormat | null>(null);
+    const urlFormat = src ? detectFormatFromUrl(src) : null;
+    const format = urlFormat || (probedFormat?.src === src ? probedFormat.format : null);
+
+    useEffect(() => {
+        onAdsStrippedRef.current = onAdsStripped;
+    }, [onAdsStripped]);
+
+    useEffect(() => {
+        if (!src || urlFormat) return;
+
+        const controller = new AbortController();
+        probeMediaFormat(src, controller.signal).then((probed) => {
+            if (!controller.signal.aborted) {
+                setProbedFormat({ src, format: probed || 'hls' });
+            }
+        });
+        return () => controller.abort();
+    }, [src, urlFormat]);
 
     useEffect(() => {
         const video = videoRef.current;
-        if (!video || !src) return;
+        if (!video || !src || !format) return;
 
         // Cleanup previous HLS instance
         if (hlsRef.current) {
@@ -28,6 +121,10 @@ export function useHlsPlayer({
             hlsRef.current = null;
         }
 
+        if (format !== 'hls') {
+            return startMediaEngine(video, src, format, { onError });
+        }
+
         let hls: Hls | null = null;
 
         // Check if HLS is supported natively (Safari, Mobile Chrome)
@@ -99,7 +196,30 @@ export function useHlsPlayer({
                     }
                 });
 
+                // Report stripped ads once per source, from the first media playlist that had any
+                let adsReported = false;
+                hls.on(Hls.Events.LEVEL_LOADED, (event, data) => {
+                    if (adsReported) return;
+                    const seconds = getStrippedSeconds(data.networkDetails);
+                    if (seconds > 0) {
+                        adsReported = true;
+                        onAdsStrippedRef.current?.(seconds);
+                    }
+                });
+
+                hls.on(Hls.Events.LEVEL_SWITCHED, (event, data) => {
+                    setQualityState(prev => ({ ...prev, currentLevel: data.level }));
+                });
+
                 hls.on(Hls.Events.MANIFEST_PARSED, () => {
+                    if (hls) {
+                        const levels = toQualityLevels(hls.levels);
+                        const preferred = pickPreferredLevel(levels, settingsStore.getSettings().preferredQuality);
+                        if (preferred !== -1) {
+                            hls.currentLevel = preferred;
+                        }
+                        setQualityState({ src, levels, currentLevel: preferred, isAuto: preferred === -1 });
+                    }
 
                     // Check for HEVC/H.265 codec (limited browser support)
                     if (hls) {
@@ -184,5 +304,32 @@ export function useHlsPlayer({
                 hls.destroy();
             }
         };
-    }, [src, videoRef, autoPlay, onAutoPlayPrevented, onError]);
+    }, [src, format, videoRef, autoPlay, onAutoPlayPrevented, onError]);
+
+    /**
+     * Switch to a level, or back to automatic switching with -1, and remember the choice
+     */
+    const setQuality = useCallback((index: number) => {
+        const hls = hlsRef.current;
+        if (!hls) return;
+
+        hls.currentLevel = index;
+        setQualityState(prev => ({ ...prev, isAuto: index === -1 }));
+
+        const settings = settingsStore.getSettings();
+        settingsStore.saveSettings({
+            ...settings,
+            preferredQuality: index === -1 ? 0 : hls.levels[index]?.height || 0,
+        });
+    }, []);
+
+    // Levels of a previous source are never shown for the current one
+    const isCurrent = qualityState.src === src;
+
+    return {
+        qualityLevels: isCurrent ? qualityState.levels : [],
+        currentQualityLevel: isCurrent ? qualityState.currentLevel : -1,
+        isAutoQuality: isCurrent ? qualityState.isAuto : true,
+        setQuality,
+    };
 }
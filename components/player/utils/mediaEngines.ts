@@ -0,0 +1,147 @@
+/**
+ * Playback engines for the non-HLS formats. Each one drives the player's own <video>
+ * element, so controls, history saving and auto-skip work the same as with hls.js.
+ * The FLV and DASH libraries are only downloaded when such an episode is played.
+ */
+
+import { unwrapProxyUrl, type MediaFormat } from '@/lib/utils/media-format';
+
+export interface MediaEngineOptions {
+    onError?: (message: string) => void;
+}
+
+/**
+ * Stops loading and releases the video element
+ */
+export type DetachMediaEngine = () => void;
+
+const NETWORK_ERROR_MESSAGE = '网络错误：无法加载视频流';
+const MEDIA_ERROR_MESSAGE = '媒体错误：视频格式不支持或已损坏';
+
+/**
+ * MP4, WebM and other files the browser plays by itself
+ */
+export function attachNativeEngine(video: HTMLVideoElement, src: string): DetachMediaEngine {
+    video.src = src;
+    return () => {
+        video.removeAttribute('src');
+        video.load();
+    };
+}
+
+export async function attachFlvEngine(
+    video: HTMLVideoElement,
+    src: string,
+    { onError }: MediaEngineOptions
+): Promise<DetachMediaEngine> {
+    const { default: mpegts } = await import('mpegts.js');
+    if (!mpegts.isSupported()) {
+        console.error('[FLV] Media Source Extensions not supported in this browser');
+        onError?.('当前浏览器不支持 FLV 视频播放');
+        return () => { };
+    }
+
+    const player = mpegts.createPlayer(
+        { type: 'flv', url: src, isLive: false },
+        { enableWorker: true, lazyLoadMaxDuration: 3 * 60 }
+    );
+    player.on(mpegts.Events.ERROR, (type: string, details: string) => {
+        console.error('[FLV] Fatal error:', type, details);
+        onError?.(type === mpegts.ErrorTypes.NETWORK_ERROR ? NETWORK_ERROR_MESSAGE : MEDIA_ERROR_MESSAGE);
+    });
+    player.attachMediaElement(video);
+    player.load();
+
+    return () => {
+        player.unload();
+        player.detachMediaElement();
+        player.destroy();
+    };
+}
+
+/**
+ * Proxy URL for a request made while playing a proxied manifest. dash.js works with the
+ * real addresses so relative URLs resolve, and each request is wrapped again here. The entry
+ * signature only covers the manifest; the rest carry the scope token the proxy sent with it.
+ */
+function toProxyRequestUrl(proxySrc: string, url: string, scopeParams: string): string {
+    const proxied = new URL(proxySrc, window.location.origin);
+    proxied.searchParams.set('url', url);
+    proxied.searchParams.delete('exp');
+    proxied.searchParams.delete('sig');
+    new URLSearchParams(scopeParams).forEach((value, key) => proxied.searchParams.set(key, value));
+    return proxied.toString();
+}
+
+export async function attachDashEngine(
+    video: HTMLVideoElement,
+    src: string,
+    { onError }: MediaEngineOptions
+): Promise<DetachMediaEngine> {
+    const dashjs = await import('dashjs');
+    const player = dashjs.MediaPlayer().create();
+
+    const manifestUrl = unwrapProxyUrl(src);
+    if (manifestUrl !== src) {
+        let scopeParams = '';
+        player.addRequestInterceptor(async (request) => {
+            request.url = request.url === manifestUrl
+                ? src
+                : toProxyRequestUrl(src, request.url, scopeParams);
+            return request;
+        });
+        // dash.js takes the manifest's base URL from the response URL
+        player.addResponseInterceptor(async (response) => {
+            if (response.url) response.url = unwrapProxyUrl(response.url);
+            // Header names from XHR are lower case
+            const scope = response.headers?.['x-proxy-scope'];
+            if (scope) scopeParams = scope;
+            return response;
+        });
+    }
+
+    player.on(dashjs.MediaPlayer.events.ERROR, (event: { error?: unknown }) => {
+        console.error('[DASH] Error:', event.error);
+        const isNetworkError = event.error === 'download' || event.error === 'manifestError';
+        onError?.(isNetworkError ? NETWORK_ERROR_MESSAGE : MEDIA_ERROR_MESSAGE);
+    });
+    // Playback is started by the player's loadedmetadata handler, as with every engine
+    player.initialize(video, manifestUrl, false);
+
+    return () => player.destroy();
+}
+
+/**
+ * Start the engine for a non-HLS format
+ * @returns Cleanup that also cancels an engine whose library is still loading
+ */
+export function startMediaEngine(
+    video: HTMLVideoElement,
+    src: string,
+    format: Exclude<MediaFormat, 'hls'>,
+    options: MediaEngineOptions
+): DetachMediaEngine {
+    if (format === 'progressive') return attachNativeEngine(video, src);
+
+    let detach: DetachMediaEngine | null = null;
+    let cancelled = false;
+    const attach = format === 'flv' ? attachFlvEngine : attachDashEngine;
+
+    attach(video, src, options)
+        .then((detachEngine) => {
+            if (cancelled) {
+                detachEngine();
+            } else {
+                detach = detachEngine;
+            }
+        })
+        .catch((error) => {
+            console.error(`[Player] Failed to start the ${format} engine:`, error);
+            options.onError?.('播放器加载失败，请刷新重试');
+        });
+
+    return () => {
+        cancelled = true;
+        detach?.();
+    };
+}
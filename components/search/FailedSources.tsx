@@ -0,0 +1,67 @@
+'use client';
+
+/**
+ * FailedSources - Collapsible list of sources that failed during a search, with the reason
+ * Following Liquid Glass design system
+ */
+
+import { useState } from 'react';
+import type { SourceFailure, SourceErrorCode } from '@/lib/types';
+
+interface FailedSourcesProps {
+  failures: SourceFailure[];
+  className?: string;
+}
+
+const REASON_LABELS: Record<SourceErrorCode, string> = {
+  TIMEOUT: '请求超时',
+  HTTP_STATUS: 'HTTP 错误',
+  PARSE_ERROR: '数据解析失败',
+  UPSTREAM_CODE: '接口返回错误',
+  TLS: '证书/TLS 错误',
+  NETWORK: '网络错误',
+  NOT_FOUND: '未找到',
+  CIRCUIT_OPEN: '已熔断，暂时跳过',
+  ABORTED: '已取消',
+  UNKNOWN: '未知错误',
+};
+
+function formatReason(failure: SourceFailure): string {
+  if (failure.code === 'HTTP_STATUS' && failure.status) {
+    return `HTTP ${failure.status}`;
+  }
+  return REASON_LABELS[failure.code] || REASON_LABELS.UNKNOWN;
+}
+
+export function FailedSources({ failures, className = '' }: FailedSourcesProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (failures.length === 0) return null;
+
+  return (
+    <div className={`bg-[var(--glass-bg)] border border-[var(--glass-border)] rounded-[var(--radius-2xl)] px-4 py-3 ${className}`}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-sm text-[var(--text-color-secondary)] cursor-pointer"
+        aria-expanded={isExpanded}
+      >
+        <span>{failures.length} 个源请求失败</span>
+        <span>{isExpanded ? '收起' : '查看原因'}</span>
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-3 space-y-2">
+          {failures.map((failure) => (
+            <li key={failure.source} className="flex items-start gap-3 text-sm">
+              <span className="flex-shrink-0 font-medium text-[var(--text-color)]">{failure.sourceName}</span>
+              <span className="flex-shrink-0 text-red-500">{formatReason(failure)}</span>
+              <span className="flex-1 min-w-0 text-[var(--text-color-secondary)] truncate" title={failure.message}>
+                {failure.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
-import { useState, FormEvent, useEffect, useRef } from 'react';
+import { useState, FormEvent, useEffect, useRef, useMemo } from 'react';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { Icons } from '@/components/ui/Icon';
 import { SearchHistoryDropdown } from '@/components/search/SearchHistoryDropdown';
+import { SearchSuggestionDropdown } from '@/components/search/SearchSuggestionDropdown';
 import { useSearchHistory } from '@/lib/hooks/useSearchHistory';
+import { useSearchSuggestions } from '@/lib/hooks/useSearchSuggestions';
 import { useSearchBoxHandlers } from './hooks/useSearchBoxHandlers';
+import { parseSearchQuery, formatSearchQuery } from '@/lib/utils/search-query';
 
 interface SearchBoxProps {
     onSearch: (query: string) => void;
@@ -37,6 +40,26 @@ export function SearchBox({ onSearch, onClear, initialQuery = '', placeholder =
         inputRef.current?.blur();
     });
 
+    // Completions for the free-text part, while typing
+    const historyQueries = useMemo(() => searchHistory.map(item => item.query), [searchHistory]);
+    const {
+        suggestions,
+        suggestionIndex,
+        navigateSuggestions,
+        resetSuggestionHighlight,
+    } = useSearchSuggestions(parseSearchQuery(query).text, historyQueries);
+    const showSuggestions = suggestions.length > 0;
+
+    // A completion replaces the free text and keeps any year:/type:/... filters
+    const selectSuggestion = (text: string) => {
+        const nextQuery = formatSearchQuery({ text, filters: parseSearchQuery(query).filters });
+        setQuery(nextQuery);
+        addSearch(nextQuery);
+        onSearch(nextQuery);
+        hideDropdown();
+        inputRef.current?.blur();
+    };
+
     // Update query when initialQuery changes
     useEffect(() => {
         setQuery(initialQuery);
@@ -63,6 +86,11 @@ export function SearchBox({ onSearch, onClear, initialQuery = '', placeholder =
         resetHighlight,
         selectHistoryItem,
         navigateDropdown,
+        suggestions,
+        suggestionIndex,
+        navigateSuggestions,
+        resetSuggestionHighlight,
+        selectSuggestion,
     });
 
     return (
@@ -71,7 +99,10 @@ export function SearchBox({ onSearch, onClear, initialQuery = '', placeholder =
                 ref={inputRef}
                 type="text"
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
+                onChange={(e) => {
+                    setQuery(e.target.value);
+                    if (!isDropdownOpen) showDropdown();
+                }}
                 onFocus={handleInputFocus}
                 onBlur={handleInputBlur}
                 onKeyDown={handleKeyDown}
@@ -79,7 +110,7 @@ export function SearchBox({ onSearch, onClear, initialQuery = '', placeholder =
                 className="text-base sm:text-lg pr-28 sm:pr-36 md:pr-44 truncate"
                 aria-label="搜索视频内容"
                 aria-expanded={isDropdownOpen}
-                aria-controls="search-history-dropdown"
+                aria-controls={showSuggestions ? 'search-suggestion-dropdown' : 'search-history-dropdown'}
                 aria-autocomplete="list"
             />
 
@@ -96,7 +127,7 @@ export function SearchBox({ onSearch, onClear, initialQuery = '', placeholder =
                 )}
                 <Button
                     type="submit"
-                    disabled={!query.trim()}
+                    disabled={!parseSearchQuery(query).text}
                     variant="primary"
                     className="px-3 sm:px-4 md:px-6"
                 >
@@ -107,9 +138,15 @@ export function SearchBox({ onSearch, onClear, initialQuery = '', placeholder =
                 </Button>
             </div>
 
-            {/* Search History Dropdown */}
-            <SearchHistoryDropdown
+            {/* Suggestions while typing, otherwise the search history */}
+            <SearchSuggestionDropdown
                 isOpen={isDropdownOpen}
+                suggestions={suggestions}
+                highlightedIndex={suggestionIndex}
+                onSelectItem={selectSuggestion}
+            />
+            <SearchHistoryDropdown
+                isOpen={isDropdownOpen && !showSuggestions}
                 searchHistory={searchHistory}
                 highlightedIndex={highlightedIndex}
                 triggerRef={inputRef}
@@ -0,0 +1,68 @@
+/**
+ * SearchFilterChips - Active structured filters from the query (year:, type:, area:, actor:, -term)
+ * Each chip removes its filter and re-runs the search
+ */
+
+'use client';
+
+import { memo } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Icons } from '@/components/ui/Icon';
+import { FILTER_LABELS, type SearchFilterToken } from '@/lib/utils/search-query';
+
+interface SearchFilterChipsProps {
+  tokens: SearchFilterToken[];
+  onRemove: (token: SearchFilterToken) => void;
+  className?: string;
+}
+
+export const SearchFilterChips = memo(function SearchFilterChips({
+  tokens,
+  onRemove,
+  className = ''
+}: SearchFilterChipsProps) {
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card
+      hover={false}
+      className={`p-4 animate-fade-in bg-[var(--bg-color)]/50 backdrop-blur-none saturate-100 shadow-sm border-[var(--glass-border)] ${className}`}
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex items-center gap-2 shrink-0 pt-1">
+          <Icons.Target size={16} className="text-[var(--accent-color)]" />
+          <span className="text-sm font-semibold text-[var(--text-color)]">
+            搜索条件:
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap" role="group" aria-label="搜索条件">
+          {tokens.map(token => (
+            <button
+              key={`${token.field}:${token.value}`}
+              onClick={() => onRemove(token)}
+              aria-label={`移除${FILTER_LABELS[token.field]}条件 ${token.value}`}
+              className={`
+                inline-flex items-center gap-1.5 px-4 py-2
+                rounded-full border-2
+                text-sm font-medium whitespace-nowrap
+                transition-all duration-200 ease-out
+                hover:scale-105 active:scale-95 cursor-pointer
+                ${token.field === 'exclude'
+                  ? 'bg-[var(--glass-bg)] text-[var(--text-color)] border-red-500/50 hover:border-red-500'
+                  : 'bg-[var(--glass-bg)] text-[var(--text-color)] border-[var(--accent-color)]/50 hover:border-[var(--accent-color)]'
+                }
+              `}
+            >
+              <span className="text-[var(--text-color-secondary)]">{FILTER_LABELS[token.field]}</span>
+              <span>{token.value}</span>
+              <Icons.X size={14} className="opacity-70" />
+            </button>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+});
@@ -0,0 +1,89 @@
+/**
+ * SearchSuggestionDropdown Component
+ * Title completions while typing, styled like the search history dropdown
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Icons } from '@/components/ui/Icon';
+import type { SearchSuggestion, SuggestionSource } from '@/lib/types';
+
+const SOURCE_LABELS: Record<SuggestionSource, string> = {
+  history: '搜索历史',
+  recent: '近期热搜',
+  douban: '豆瓣热门',
+};
+
+interface SearchSuggestionDropdownProps {
+  isOpen: boolean;
+  suggestions: SearchSuggestion[];
+  highlightedIndex: number;
+  onSelectItem: (text: string) => void;
+}
+
+export function SearchSuggestionDropdown({
+  isOpen,
+  suggestions,
+  highlightedIndex,
+  onSelectItem,
+}: SearchSuggestionDropdownProps) {
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Scroll highlighted item into view
+  useEffect(() => {
+    if (highlightedIndex === -1 || !dropdownRef.current) return;
+
+    dropdownRef.current
+      .querySelector(`[data-index="${highlightedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightedIndex]);
+
+  if (!isOpen || suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      ref={dropdownRef}
+      id="search-suggestion-dropdown"
+      className="search-history-dropdown absolute top-full left-0 right-0 mt-2 z-[9999]"
+      role="listbox"
+      aria-label="搜索建议"
+      onMouseDown={(e) => {
+        // Prevent blur when clicking inside dropdown
+        e.preventDefault();
+      }}
+    >
+      <div className="search-history-list">
+        {suggestions.map((item, index) => (
+          <div
+            key={`${item.source}-${item.text}`}
+            data-index={index}
+            role="option"
+            aria-selected={index === highlightedIndex}
+            className={`search-history-item ${index === highlightedIndex ? 'highlighted' : ''}`}
+            onClick={(e) => {
+              e.preventDefault();
+              onSelectItem(item.text);
+            }}
+          >
+            <div className="flex items-center gap-3 flex-1 min-w-0">
+              {item.source === 'history' ? (
+                <Icons.History size={16} className="flex-shrink-0 text-[var(--text-color-secondary)]" />
+              ) : (
+                <Icons.Search size={16} className="flex-shrink-0 text-[var(--text-color-secondary)]" />
+              )}
+              <span className="text-[var(--text-color)] truncate flex-1">
+                {item.text}
+              </span>
+              <span className="text-xs text-[var(--text-color-secondary)] flex-shrink-0">
+                {SOURCE_LABELS[item.source]}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { FavoriteButton } from '@/components/favorites/FavoriteButton';
 
 import { Video } from '@/lib/types';
 import { parseVideoTitle } from '@/lib/utils/video';
+import { formatRating } from '@/lib/utils/rating';
 
 interface VideoCardProps {
     video: Video;
@@ -96,6 +97,19 @@ export const VideoCard = memo<VideoCardProps>(({
                             )}
                         </div>
 
+                        {/* Rating - Bottom Right */}
+                        {video.rating !== undefined && (
+                            <div
+                                className="absolute bottom-2 right-2 z-10 bg-black/80 px-2 py-1 flex items-center gap-1 rounded-[var(--radius-full)]"
+                                title={video.ratingSource === 'douban' ? '豆瓣评分' : '视频源评分'}
+                            >
+                                <Icons.Star size={12} className="text-yellow-400 fill-yellow-400" />
+                                <span className="text-xs font-bold text-white">
+                                    {formatRating(video.rating)}
+                                </span>
+                            </div>
+                        )}
+
                         {/* Favorite Button - Top Right */}
                         <div className={`absolute top-2 right-2 z-20 transition-opacity duration-200 ${isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                             <FavoriteButton
@@ -4,15 +4,31 @@ import { useState, useRef, useCallback, useMemo, memo, useEffect } from 'react';
 import { VideoCard } from './VideoCard';
 import { VideoGroupCard, GroupedVideo } from './VideoGroupCard';
 import { settingsStore } from '@/lib/store/settings-store';
+import { useInfiniteScroll } from '@/lib/hooks/useInfiniteScroll';
 import { Video } from '@/lib/types';
+import { groupByWork } from '@/lib/utils/work-identity';
 
 interface VideoGridProps {
   videos: Video[];
   className?: string;
   isPremium?: boolean;
+  page?: number;
+  hasMore?: boolean; // More result pages available from the sources
+  loadingMore?: boolean;
+  onLoadMore?: (nextPage: number) => void;
 }
 
-export const VideoGrid = memo(function VideoGrid({ videos, className = '', isPremium = false }: VideoGridProps) {
+const noop = () => { };
+
+export const VideoGrid = memo(function VideoGrid({
+  videos,
+  className = '',
+  isPremium = false,
+  page = 1,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore = noop,
+}: VideoGridProps) {
   const [activeCardId, setActiveCardId] = useState<string | null>(null);
   const [visibleCount, setVisibleCount] = useState(24);
   const [displayMode, setDisplayMode] = useState<'normal' | 'grouped'>('normal');
@@ -32,25 +48,13 @@ export const VideoGrid = memo(function VideoGrid({ videos, className = '', isPre
     return () => unsubscribe();
   }, []);
 
-  if (videos.length === 0) {
-    return null;
-  }
-
-  // Group videos by name when in grouped mode
+  // Group videos by work identity when in grouped mode
   const groupedVideos = useMemo<GroupedVideo[]>(() => {
     if (displayMode !== 'grouped') return [];
 
-    const groups = new Map<string, Video[]>();
-
-    videos.forEach(video => {
-      const name = video.vod_name.toLowerCase().trim();
-      if (!groups.has(name)) {
-        groups.set(name, []);
-      }
-      groups.get(name)!.push(video);
-    });
+    const groups = groupByWork(videos);
 
-    return Array.from(groups.entries()).map(([, groupVideos]) => {
+    return Array.from(groups.entries()).map(([workKey, groupVideos]) => {
       // Sort by latency (lowest first) 
       const sorted = [...groupVideos].sort((a, b) => {
         if (a.latency === undefined) return 1;
@@ -62,6 +66,7 @@ export const VideoGrid = memo(function VideoGrid({ videos, className = '', isPre
         representative: sorted[0],
         videos: sorted,
         name: sorted[0].vod_name,
+        workKey,
       };
     });
   }, [videos, displayMode]);
@@ -130,6 +135,19 @@ export const VideoGrid = memo(function VideoGrid({ videos, className = '', isPre
 
   const totalItems = displayMode === 'grouped' ? groupItems.length : videoItems.length;
 
+  // Fetch the next result page once everything loaded so far is on screen
+  const allVisible = visibleCount >= totalItems;
+  const { prefetchRef } = useInfiniteScroll({
+    hasMore: hasMore && allVisible,
+    loading: loadingMore,
+    page,
+    onLoadMore,
+  });
+
+  if (videos.length === 0) {
+    return null;
+  }
+
   return (
     <>
       <div
@@ -180,6 +198,15 @@ export const VideoGrid = memo(function VideoGrid({ videos, className = '', isPre
           aria-hidden="true"
         />
       )}
+
+      {/* Next page trigger */}
+      {allVisible && (hasMore || loadingMore) && (
+        <div ref={prefetchRef} className="h-20 w-full flex items-center justify-center">
+          {loadingMore && (
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-[var(--accent-color)] border-t-transparent" />
+          )}
+        </div>
+      )}
     </>
   );
 });
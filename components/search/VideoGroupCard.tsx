@@ -23,6 +23,8 @@ export interface GroupedVideo {
     videos: Video[];
     /** Group name (vod_name) */
     name: string;
+    /** Canonical work key shared by every video in the group */
+    workKey: string;
 }
 
 interface VideoGroupCardProps {
@@ -54,6 +56,7 @@ export const VideoGroupCard = memo<VideoGroupCardProps>(({
             id: String(representative.vod_id),
             source: representative.source,
             title: representative.vod_name,
+            work: group.workKey,
         });
 
         // Add group data if multiple sources
@@ -69,7 +72,7 @@ export const VideoGroupCard = memo<VideoGroupCardProps>(({
         }
 
         return `/player?${params.toString()}`;
-    }, [representative, videos]);
+    }, [representative, videos, group.workKey]);
 
     return (
         <div
@@ -3,6 +3,8 @@
  */
 
 import { FormEvent, RefObject } from 'react';
+import { parseSearchQuery } from '@/lib/utils/search-query';
+import type { SearchSuggestion } from '@/lib/types';
 
 interface UseSearchBoxHandlersProps {
     query: string;
@@ -19,6 +21,11 @@ interface UseSearchBoxHandlersProps {
     resetHighlight: () => void;
     selectHistoryItem: (query: string) => void;
     navigateDropdown: (direction: 'up' | 'down') => void;
+    suggestions: SearchSuggestion[];
+    suggestionIndex: number;
+    navigateSuggestions: (direction: 'up' | 'down') => void;
+    resetSuggestionHighlight: () => void;
+    selectSuggestion: (text: string) => void;
 }
 
 export function useSearchBoxHandlers({
@@ -36,10 +43,16 @@ export function useSearchBoxHandlers({
     resetHighlight,
     selectHistoryItem,
     navigateDropdown,
+    suggestions,
+    suggestionIndex,
+    navigateSuggestions,
+    resetSuggestionHighlight,
+    selectSuggestion,
 }: UseSearchBoxHandlersProps) {
     const handleSubmit = (e: FormEvent) => {
         e.preventDefault();
-        if (query.trim()) {
+        // Filters alone (e.g. "year:2023") have nothing to search for
+        if (parseSearchQuery(query).text) {
             addSearch(query.trim());
             onSearch(query);
             hideDropdown();
@@ -53,6 +66,7 @@ export function useSearchBoxHandlers({
             onClear();
         }
         resetHighlight();
+        resetSuggestionHighlight();
     };
 
     const handleInputFocus = () => {
@@ -70,6 +84,31 @@ export function useSearchBoxHandlers({
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (!isDropdownOpen) return;
 
+        // Completions take over the arrow keys while they are shown
+        if (suggestions.length > 0) {
+            switch (e.key) {
+                case 'ArrowDown':
+                    e.preventDefault();
+                    navigateSuggestions('down');
+                    break;
+                case 'ArrowUp':
+                    e.preventDefault();
+                    navigateSuggestions('up');
+                    break;
+                case 'Enter':
+                    if (suggestionIndex >= 0 && suggestions[suggestionIndex]) {
+                        e.preventDefault();
+                        selectSuggestion(suggestions[suggestionIndex].text);
+                    }
+                    break;
+                case 'Escape':
+                    hideDropdown();
+                    inputRef.current?.blur();
+                    break;
+            }
+            return;
+        }
+
         switch (e.key) {
             case 'ArrowDown':
                 e.preventDefault();
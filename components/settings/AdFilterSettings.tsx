@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { SettingsSection } from './SettingsSection';
+import { Trash2, Plus } from 'lucide-react';
+import { Switch } from '@/components/ui/Switch';
+import { parseAdRules } from '@/lib/utils/hls-ad-filter';
+
+interface AdFilterSettingsProps {
+    enabled: boolean;
+    rules: string[];
+    onToggle: (enabled: boolean) => void;
+    onAddRule: (rule: string) => void;
+    onRemoveRule: (rule: string) => void;
+}
+
+export function AdFilterSettings({
+    enabled,
+    rules,
+    onToggle,
+    onAddRule,
+    onRemoveRule,
+}: AdFilterSettingsProps) {
+    const [newRule, setNewRule] = useState('');
+    const [error, setError] = useState('');
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rule = newRule.trim();
+        if (!rule) return;
+
+        if (rules.includes(rule)) {
+            setError('规则已存在');
+            return;
+        }
+        if (parseAdRules([rule]).length === 0) {
+            setError('规则需包含要匹配的文字');
+            return;
+        }
+
+        onAddRule(rule);
+        setNewRule('');
+        setError('');
+    };
+
+    return (
+        <SettingsSection
+            title="广告过滤"
+            description="通过代理播放 m3u8 时，移除视频源插入的广告片段。开启后播放将默认使用代理模式。"
+        >
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h3 className="font-medium text-[var(--text-color)]">启用广告过滤</h3>
+                        <p className="text-sm text-[var(--text-color-secondary)] mt-1">
+                            自动识别来自其他域名或路径、以及时长为常见广告长度的插入片段
+                        </p>
+                    </div>
+                    <Switch
+                        checked={enabled}
+                        onChange={onToggle}
+                        ariaLabel="广告过滤开关"
+                    />
+                </div>
+
+                {enabled && (
+                    <div className="space-y-4 pt-4 border-t border-[var(--glass-border)] animate-in fade-in slide-in-from-top-2">
+                        <div className="space-y-2">
+                            <h4 className="text-sm font-medium text-[var(--text-color)]">自定义规则</h4>
+                            <p className="text-xs text-[var(--text-color-secondary)]">
+                                片段地址包含该文字的分片将被移除，<code className="px-1 py-0.5 bg-[var(--glass-bg)] rounded">*</code> 匹配任意字符，<code className="px-1 py-0.5 bg-[var(--glass-bg)] rounded">|</code> 分隔多种写法，例如 <code className="px-1 py-0.5 bg-[var(--glass-bg)] rounded">/ad/|adjump*.ts</code>
+                            </p>
+
+                            <div className="flex flex-wrap gap-2">
+                                {rules.map(rule => (
+                                    <div
+                                        key={rule}
+                                        className="flex items-center gap-2 px-3 py-1.5 bg-[var(--glass-bg)] border border-[var(--glass-border)] rounded-[var(--radius-full)] text-sm"
+                                    >
+                                        <span className="font-mono break-all">{rule}</span>
+                                        <button
+                                            onClick={() => onRemoveRule(rule)}
+                                            className="text-[var(--text-color-secondary)] hover:text-red-500 transition-colors cursor-pointer"
+                                            title="删除规则"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <form onSubmit={handleAdd} className="flex gap-2 items-start">
+                            <div className="flex-1 space-y-1">
+                                <input
+                                    type="text"
+                                    value={newRule}
+                                    onChange={(e) => {
+                                        setNewRule(e.target.value);
+                                        setError('');
+                                    }}
+                                    placeholder="添加过滤规则..."
+                                    className="w-full px-4 py-2 rounded-[var(--radius-2xl)] bg-[var(--glass-bg)] border border-[var(--glass-border)] focus:outline-none focus:border-[var(--accent-color)] focus:shadow-[0_0_0_3px_color-mix(in_srgb,var(--accent-color)_30%,transparent)] transition-all duration-[0.4s] cubic-bezier(0.2,0.8,0.2,1) text-sm font-mono"
+                                />
+                                {error && <p className="text-xs text-red-500 pl-2">{error}</p>}
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={!newRule.trim()}
+                                className="p-2 bg-[var(--accent-color)] text-white rounded-[var(--radius-2xl)] hover:translate-y-[-2px] hover:brightness-110 shadow-[var(--shadow-sm)] hover:shadow-[0_4px_8px_var(--shadow-color)] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none transition-all duration-200 cursor-pointer"
+                            >
+                                <Plus size={20} />
+                            </button>
+                        </form>
+                    </div>
+                )}
+            </div>
+        </SettingsSection>
+    );
+}
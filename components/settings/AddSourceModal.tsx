@@ -3,6 +3,8 @@
 import { useAddSourceForm } from './hooks/useAddSourceForm';
 import { ModalBackdrop } from '@/components/ui/ModalBackdrop';
 import { ModalHeader } from '@/components/ui/ModalHeader';
+import { SourceTestReport } from './SourceTestReport';
+import { SourceAdvancedFields } from './SourceAdvancedFields';
 import type { VideoSource } from '@/lib/types';
 
 interface AddSourceModalProps {
@@ -14,7 +16,7 @@ interface AddSourceModalProps {
 }
 
 export function AddSourceModal({ isOpen, onClose, onAdd, existingIds, initialValues }: AddSourceModalProps) {
-  const { name, setName, url, setUrl, error, handleSubmit } = useAddSourceForm({
+  const { name, setName, url, setUrl, advanced, setAdvanced, error, report, isTesting, handleSubmit } = useAddSourceForm({
     isOpen,
     existingIds,
     onAdd,
@@ -35,7 +37,7 @@ export function AddSourceModal({ isOpen, onClose, onAdd, existingIds, initialVal
           : 'opacity-0 -translate-y-[40%] scale-95 pointer-events-none'
           }`}
       >
-        <div className="bg-[var(--glass-bg)] backdrop-blur-xl border border-[var(--glass-border)] rounded-[var(--radius-2xl)] shadow-[var(--shadow-md)] p-6">
+        <div className="bg-[var(--glass-bg)] backdrop-blur-xl border border-[var(--glass-border)] rounded-[var(--radius-2xl)] shadow-[var(--shadow-md)] p-6 max-h-[90vh] overflow-y-auto">
           <ModalHeader title={initialValues ? "编辑视频源" : "添加自定义源"} onClose={onClose} />
 
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -67,6 +69,10 @@ export function AddSourceModal({ isOpen, onClose, onAdd, existingIds, initialVal
               />
             </div>
 
+            <SourceAdvancedFields values={advanced} onChange={setAdvanced} />
+
+            {report && <SourceTestReport report={report} />}
+
             {error && (
               <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 rounded-[var(--radius-2xl)] px-4 py-2">
                 {error}
@@ -83,9 +89,10 @@ export function AddSourceModal({ isOpen, onClose, onAdd, existingIds, initialVal
               </button>
               <button
                 type="submit"
-                className="flex-1 px-6 py-3 rounded-[var(--radius-2xl)] bg-[var(--accent-color)] text-white font-semibold hover:brightness-110 hover:-translate-y-0.5 shadow-[var(--shadow-sm)] transition-all duration-200"
+                disabled={isTesting}
+                className="flex-1 px-6 py-3 rounded-[var(--radius-2xl)] bg-[var(--accent-color)] text-white font-semibold hover:brightness-110 hover:-translate-y-0.5 shadow-[var(--shadow-sm)] transition-all duration-200 disabled:opacity-60 disabled:cursor-wait"
               >
-                {initialValues ? "保存" : "添加"}
+                {isTesting ? "检测中..." : !report ? "检测源" : initialValues ? "保存" : "添加"}
               </button>
             </div>
           </form>
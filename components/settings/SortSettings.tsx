@@ -1,12 +1,15 @@
 import { type SortOption } from '@/lib/store/settings-store';
 import { sortOptions } from '@/lib/store/settings-helpers';
+import { Switch } from '@/components/ui/Switch';
 
 interface SortSettingsProps {
     sortBy: SortOption;
     onSortChange: (sort: SortOption) => void;
+    ratingEnrichment: boolean;
+    onRatingEnrichmentChange: (enabled: boolean) => void;
 }
 
-export function SortSettings({ sortBy, onSortChange }: SortSettingsProps) {
+export function SortSettings({ sortBy, onSortChange, ratingEnrichment, onRatingEnrichmentChange }: SortSettingsProps) {
     return (
         <div className="bg-[var(--glass-bg)] border border-[var(--glass-border)] rounded-[var(--radius-2xl)] shadow-[var(--shadow-sm)] p-6 mb-6">
             <h2 className="text-xl font-semibold text-[var(--text-color)] mb-4">搜索结果排序</h2>
@@ -27,6 +30,21 @@ export function SortSettings({ sortBy, onSortChange }: SortSettingsProps) {
                     </button>
                 ))}
             </div>
+
+            {/* Rating Enrichment Toggle */}
+            <div className="flex items-center justify-between mt-6">
+                <div>
+                    <h3 className="font-medium text-[var(--text-color)]">豆瓣评分补全</h3>
+                    <p className="text-sm text-[var(--text-color-secondary)] mt-1">
+                        视频源未提供评分时，匹配豆瓣热门榜单补全评分，用于评分排序和卡片显示
+                    </p>
+                </div>
+                <Switch
+                    checked={ratingEnrichment}
+                    onChange={onRatingEnrichmentChange}
+                    ariaLabel="豆瓣评分补全开关"
+                />
+            </div>
         </div>
     );
 }
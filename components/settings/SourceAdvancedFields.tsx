@@ -0,0 +1,112 @@
+'use client';
+
+/**
+ * SourceAdvancedFields - Collapsible paths, parameter mapping and playback headers for AddSourceModal
+ * Following Liquid Glass design system
+ */
+
+import { useState } from 'react';
+import type { SourceParams } from '@/lib/types';
+import { DEFAULT_SOURCE_PARAMS } from '@/lib/api/source-url';
+import type { SourceAdvancedValues } from './hooks/useAddSourceForm';
+
+interface SourceAdvancedFieldsProps {
+  values: SourceAdvancedValues;
+  onChange: (patch: Partial<SourceAdvancedValues>) => void;
+}
+
+const PARAM_FIELDS: { key: keyof SourceParams; label: string }[] = [
+  { key: 'action', label: '动作参数名' },
+  { key: 'searchAction', label: '搜索/分类动作' },
+  { key: 'detailAction', label: '详情动作' },
+  { key: 'listAction', label: '分类列表动作' },
+  { key: 'search', label: '关键词参数' },
+  { key: 'detail', label: '详情 ID 参数' },
+  { key: 'category', label: '分类参数' },
+  { key: 'page', label: '页码参数' },
+];
+
+const inputClassName = 'w-full bg-[var(--glass-bg)] backdrop-blur-md border border-[var(--glass-border)] rounded-[var(--radius-2xl)] px-3 py-2 text-sm text-[var(--text-color)] placeholder:text-[var(--text-color-secondary)] focus:outline-none focus:border-[var(--accent-color)] transition-all duration-200';
+
+export function SourceAdvancedFields({ values, onChange }: SourceAdvancedFieldsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="text-sm font-medium text-[var(--accent-color)] cursor-pointer"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? '收起高级设置' : '高级设置（路径、参数与播放）'}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <label className="text-xs text-[var(--text-color-secondary)]">
+            搜索路径
+            <input
+              type="text"
+              value={values.searchPath}
+              onChange={(e) => onChange({ searchPath: e.target.value })}
+              placeholder="留空使用接口地址"
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+          <label className="text-xs text-[var(--text-color-secondary)]">
+            详情路径
+            <input
+              type="text"
+              value={values.detailPath}
+              onChange={(e) => onChange({ detailPath: e.target.value })}
+              placeholder="留空使用接口地址"
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+          <label className="text-xs text-[var(--text-color-secondary)]">
+            播放 Referer
+            <input
+              type="text"
+              value={values.playback.referer || ''}
+              onChange={(e) => onChange({ playback: { ...values.playback, referer: e.target.value } })}
+              placeholder="默认使用视频域名"
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+          <label className="text-xs text-[var(--text-color-secondary)]">
+            播放 User-Agent
+            <input
+              type="text"
+              value={values.playback.userAgent || ''}
+              onChange={(e) => onChange({ playback: { ...values.playback, userAgent: e.target.value } })}
+              placeholder="默认随机浏览器 UA"
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+          <label className="col-span-2 flex items-center gap-2 text-xs text-[var(--text-color-secondary)] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={values.playback.spoofIp !== false}
+              onChange={(e) => onChange({ playback: { ...values.playback, spoofIp: e.target.checked ? undefined : false } })}
+              className="accent-[var(--accent-color)]"
+            />
+            播放时伪装来源 IP (X-Forwarded-For)
+          </label>
+          {PARAM_FIELDS.map(({ key, label }) => (
+            <label key={key} className="text-xs text-[var(--text-color-secondary)]">
+              {label}
+              <input
+                type="text"
+                value={values.params[key] || ''}
+                onChange={(e) => onChange({ params: { ...values.params, [key]: e.target.value } })}
+                placeholder={DEFAULT_SOURCE_PARAMS[key]}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+/**
+ * SourceHealthBadge - Shows when a source is benched by the circuit breaker
+ * Following Liquid Glass design system
+ */
+
+import type { SourceHealth } from '@/lib/types';
+
+interface SourceHealthBadgeProps {
+  health?: SourceHealth;
+}
+
+function formatRetry(retryAt?: number): string {
+  if (!retryAt) return '';
+  const seconds = Math.max(0, Math.round((retryAt - Date.now()) / 1000));
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} 分钟后重试` : `${seconds} 秒后重试`;
+}
+
+export function SourceHealthBadge({ health }: SourceHealthBadgeProps) {
+  if (!health || health.state === 'closed') return null;
+
+  const isOpen = health.state === 'open';
+  const label = isOpen ? '已熔断' : '探测中';
+  const detail = isOpen ? formatRetry(health.retryAt) : '下次搜索将尝试恢复';
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-[var(--radius-full)] text-xs font-medium flex-shrink-0 ${isOpen
+        ? 'bg-red-500/15 text-red-500'
+        : 'bg-amber-500/15 text-amber-600'
+        }`}
+      title={[`连续失败 ${health.consecutiveFailures} 次`, health.lastError, detail].filter(Boolean).join(' · ')}
+    >
+      {label}
+    </span>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import type { VideoSource } from '@/lib/types';
+import type { VideoSource, SourceHealth } from '@/lib/types';
+import { getSourceHealthKey } from '@/lib/api/source-health';
+import { SourceHealthBadge } from './SourceHealthBadge';
 
 interface SourceManagerProps {
   sources: VideoSource[];
@@ -10,6 +12,7 @@ interface SourceManagerProps {
   onReorder: (id: string, direction: 'up' | 'down') => void;
   onEdit?: (source: VideoSource) => void;
   defaultIds: string[];
+  health?: Record<string, SourceHealth>;
 }
 
 export function SourceManager({
@@ -18,7 +21,8 @@ export function SourceManager({
   onDelete,
   onReorder,
   onEdit,
-  defaultIds
+  defaultIds,
+  health = {},
 }: SourceManagerProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
 
@@ -63,8 +67,11 @@ export function SourceManager({
 
               {/* Source Info */}
               <div className="flex-1 min-w-0">
-                <div className="font-semibold text-[var(--text-color)] truncate">
-                  {source.name}
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-semibold text-[var(--text-color)] truncate">
+                    {source.name}
+                  </span>
+                  <SourceHealthBadge health={health[getSourceHealthKey(source)]} />
                 </div>
                 <div className="text-sm text-[var(--text-color-secondary)] truncate">
                   {source.baseUrl}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { SourceManager } from '@/components/settings/SourceManager';
 import type { VideoSource } from '@/lib/types';
 import { DEFAULT_SOURCES } from '@/lib/api/default-sources';
+import { useSourceHealth } from '@/lib/hooks/useSourceHealth';
 
 interface SourceSettingsProps {
     sources: VideoSource[];
@@ -20,6 +21,7 @@ export function SourceSettings({
 }: SourceSettingsProps) {
     const [showAllSources, setShowAllSources] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    const health = useSourceHealth();
 
     const filteredSources = sources.filter(source =>
         source.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -106,6 +108,7 @@ export function SourceSettings({
                 onReorder={handleReorder}
                 onEdit={onEditSource}
                 defaultIds={DEFAULT_SOURCES.map(s => s.id)}
+                health={health}
             />
             {!searchQuery && sources.length > 10 && (
                 <button
@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * SourceTestReport - Step by step result of validating a source
+ * Following Liquid Glass design system
+ */
+
+import type { SourceTestReport as Report, SourceTestStep } from '@/lib/types';
+
+interface SourceTestReportProps {
+  report: Report;
+}
+
+const STEPS: { key: keyof Omit<Report, 'ok'>; label: string }[] = [
+  { key: 'search', label: '搜索请求' },
+  { key: 'parse', label: '数据解析' },
+  { key: 'detail', label: '详情剧集' },
+  { key: 'playback', label: '首集播放' },
+];
+
+const STATUS_STYLES: Record<SourceTestStep['status'], { icon: string; className: string }> = {
+  ok: { icon: '✓', className: 'text-green-500' },
+  failed: { icon: '✕', className: 'text-red-500' },
+  skipped: { icon: '–', className: 'text-[var(--text-color-secondary)]' },
+};
+
+export function SourceTestReport({ report }: SourceTestReportProps) {
+  return (
+    <div className="bg-[var(--glass-bg)] border border-[var(--glass-border)] rounded-[var(--radius-2xl)] px-4 py-3 space-y-2">
+      <div className={`text-sm font-semibold ${report.ok ? 'text-green-500' : 'text-red-500'}`}>
+        {report.ok ? '检测通过' : '检测未通过，仍可继续保存'}
+      </div>
+      {STEPS.map(({ key, label }) => {
+        const step = report[key];
+        const style = STATUS_STYLES[step.status];
+        return (
+          <div key={key} className="flex items-start gap-2 text-sm">
+            <span className={`w-4 flex-shrink-0 font-bold ${style.className}`}>{style.icon}</span>
+            <span className="flex-shrink-0 text-[var(--text-color)]">{label}</span>
+            <span className="flex-1 min-w-0 text-[var(--text-color-secondary)] break-words">
+              {step.message}
+              {step.latency !== undefined && ` (${step.latency}ms)`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,7 +5,27 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { VideoSource } from '@/lib/types';
+import type { VideoSource, SourceTestReport, SourceParams, PlaybackProfile } from '@/lib/types';
+
+export interface SourceAdvancedValues {
+    searchPath: string;
+    detailPath: string;
+    params: SourceParams;
+    playback: PlaybackProfile;
+}
+
+const EMPTY_ADVANCED: SourceAdvancedValues = { searchPath: '', detailPath: '', params: {}, playback: {} };
+
+/**
+ * Drop blank overrides so defaults apply
+ */
+function compactParams<T extends object>(params: T): T | undefined {
+    const entries = Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+        .filter(([, value]) => value !== '');
+    return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+}
 
 interface UseAddSourceFormProps {
     isOpen: boolean;
@@ -18,23 +38,67 @@ interface UseAddSourceFormProps {
 export function useAddSourceForm({ isOpen, existingIds, onAdd, onClose, initialValues }: UseAddSourceFormProps) {
     const [name, setName] = useState('');
     const [url, setUrl] = useState('');
+    const [advanced, setAdvanced] = useState<SourceAdvancedValues>(EMPTY_ADVANCED);
     const [error, setError] = useState('');
+    const [report, setReport] = useState<SourceTestReport | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
 
     useEffect(() => {
         if (isOpen) {
             if (initialValues) {
                 setName(initialValues.name);
                 setUrl(initialValues.baseUrl);
+                setAdvanced({
+                    searchPath: initialValues.searchPath || '',
+                    detailPath: initialValues.detailPath || '',
+                    params: initialValues.params || {},
+                    playback: initialValues.playback || {},
+                });
             } else {
                 setName('');
                 setUrl('');
+                setAdvanced(EMPTY_ADVANCED);
             }
             setError('');
+            setReport(null);
         }
     }, [isOpen, initialValues]);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    // Any change to the address or its mapping invalidates the last test report
+    const updateUrl = (value: string) => {
+        setUrl(value);
+        setReport(null);
+    };
+
+    const updateAdvanced = (patch: Partial<SourceAdvancedValues>) => {
+        setAdvanced(prev => ({ ...prev, ...patch }));
+        setReport(null);
+    };
+
+    const runTest = async (source: VideoSource) => {
+        setIsTesting(true);
+        try {
+            const response = await fetch('/api/source/test', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ source }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setError(data.error || '检测失败');
+                return;
+            }
+            setReport(data);
+        } catch {
+            setError('检测请求失败，请稍后重试');
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (isTesting) return;
         setError('');
 
         if (!name.trim() || !url.trim()) {
@@ -67,12 +131,21 @@ export function useAddSourceForm({ isOpen, existingIds, onAdd, onClose, initialV
             id,
             name: name.trim(),
             baseUrl: url.trim(),
-            searchPath: initialValues?.searchPath || '',
-            detailPath: initialValues?.detailPath || '',
+            searchPath: advanced.searchPath.trim(),
+            detailPath: advanced.detailPath.trim(),
             enabled: initialValues?.enabled ?? true,
             priority: initialValues?.priority || existingIds.length + 1,
+            format: initialValues?.format || 'auto',
+            params: compactParams(advanced.params),
+            playback: compactParams(advanced.playback),
         };
 
+        // Show the test report first; the next submit saves the source
+        if (!report) {
+            await runTest(newSource);
+            return;
+        }
+
         onAdd(newSource);
         onClose();
     };
@@ -81,8 +154,12 @@ export function useAddSourceForm({ isOpen, existingIds, onAdd, onClose, initialV
         name,
         setName,
         url,
-        setUrl,
+        setUrl: updateUrl,
+        advanced,
+        setAdvanced: updateAdvanced,
         error,
+        report,
+        isTesting,
         handleSubmit,
     };
 }
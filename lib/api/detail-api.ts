@@ -1,25 +1,27 @@
 import type {
     VideoSource,
     VideoDetail,
-    ApiDetailResponse,
 } from '@/lib/types';
-import { fetchWithTimeout, withRetry } from './http-utils';
-import { parseEpisodes } from './parsers';
+import { fetchWithTimeout, parseRetryAfter, withRetry } from './http-utils';
+import { parseSourceResponse } from './source-format';
+import { parsePlayLines, getDefaultLineIndex } from './parsers';
+import { buildDetailUrl } from './source-url';
+import { SourceError, SourceHttpError, UpstreamCodeError, toSourceError } from './errors';
 
 /**
  * Get video detail from a single source
+ * @param fetcher - Request function, e.g. one that checks every redirect hop
  */
 export async function getVideoDetail(
     id: string | number,
-    source: VideoSource
+    source: VideoSource,
+    fetcher: (url: string, init: RequestInit) => Promise<Response> = fetchWithTimeout
 ): Promise<VideoDetail> {
-    const url = new URL(`${source.baseUrl}${source.detailPath}`);
-    url.searchParams.set('ac', 'detail');
-    url.searchParams.set('ids', id.toString());
+    const url = buildDetailUrl(source, id);
 
     try {
         const response = await withRetry(async () => {
-            const res = await fetchWithTimeout(url.toString(), {
+            const res = await fetcher(url.toString(), {
                 method: 'GET',
                 headers: {
                     'User-Agent': 'Mozilla/5.0',
@@ -28,39 +30,29 @@ export async function getVideoDetail(
             });
 
             if (!res.ok) {
-                throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+                throw new SourceHttpError(res.status, res.statusText, {
+                    retryAfter: parseRetryAfter(res.headers.get('Retry-After')),
+                });
             }
 
             return res;
         });
 
-        const data: ApiDetailResponse = await response.json();
+        const data = await parseSourceResponse(response, source.format);
 
         if (data.code !== 1 && data.code !== 0) {
-            throw new Error(data.msg || 'Invalid API response');
+            throw new UpstreamCodeError(data.code, data.msg);
         }
 
         if (!data.list || data.list.length === 0) {
-            throw new Error('Video not found');
+            throw new SourceError('NOT_FOUND', 'Video not found', false);
         }
 
         const videoData = data.list[0];
 
-        // Handle multiple sources (separated by $$$)
-        const playFrom = (videoData.vod_play_from || '').split('$$$');
-        const playUrls = (videoData.vod_play_url || '').split('$$$');
-
-        // Find the best source (prioritize m3u8)
-        let selectedIndex = 0;
-
-        // Try to find a source that contains 'm3u8' in its name or code
-        const m3u8Index = playFrom.findIndex(code => code.toLowerCase().includes('m3u8'));
-        if (m3u8Index !== -1 && m3u8Index < playUrls.length) {
-            selectedIndex = m3u8Index;
-        }
-
-        // Parse episodes from the selected source
-        const episodes = parseEpisodes(playUrls[selectedIndex] || '');
+        // Keep every play line (separated by $$$), default to the m3u8 one
+        const lines = parsePlayLines(videoData.vod_play_from || '', videoData.vod_play_url || '');
+        const defaultLine = lines[getDefaultLineIndex(lines)];
 
         return {
             vod_id: videoData.vod_id,
@@ -73,17 +65,13 @@ export async function getVideoDetail(
             vod_director: videoData.vod_director,
             vod_content: videoData.vod_content,
             type_name: videoData.type_name,
-            episodes,
+            episodes: defaultLine?.episodes || [],
+            lines,
             source: source.id,
-            source_code: playFrom[selectedIndex] || '',
+            source_code: defaultLine?.code || '',
         };
     } catch (error) {
         console.error(`Detail fetch failed for source ${source.name}:`, error);
-        throw {
-            code: 'DETAIL_FAILED',
-            message: `Failed to fetch video detail from ${source.name}`,
-            source: source.id,
-            retryable: false,
-        };
+        throw toSourceError(error, source.id);
     }
 }
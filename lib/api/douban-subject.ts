@@ -0,0 +1,166 @@
+/**
+ * Douban Subject Resolution
+ * Resolves a title and year (or a known subject id) to Douban metadata, cached per server instance
+ */
+
+import type { DoubanSubject } from '@/lib/types';
+import { parseRating } from '@/lib/utils/rating';
+import { parseWorkTitle } from '@/lib/utils/work-identity';
+import { fetchWithTimeout } from './http-utils';
+
+const SUBJECT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const MISS_TTL = 60 * 60 * 1000; // Unmatched titles are retried after an hour
+const MAX_CACHE_ENTRIES = 1000;
+const DOUBAN_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+    'Referer': 'https://movie.douban.com/',
+};
+
+interface SuggestItem {
+    id: string;
+    title: string;
+    sub_title?: string;
+    year?: string;
+    type?: string;
+}
+
+interface LdPerson {
+    name?: string;
+}
+
+interface SubjectLdJson {
+    name?: string;
+    image?: string;
+    director?: LdPerson[];
+    actor?: LdPerson[];
+    genre?: string[];
+    datePublished?: string;
+    description?: string;
+    aggregateRating?: { ratingValue?: string };
+}
+
+const cache = new Map<string, { subject: DoubanSubject | null; expiresAt: number }>();
+
+function readCache(key: string): DoubanSubject | null | undefined {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    if (Date.now() > entry.expiresAt) {
+        cache.delete(key);
+        return undefined;
+    }
+    return entry.subject;
+}
+
+function writeCache(key: string, subject: DoubanSubject | null): void {
+    cache.set(key, { subject, expiresAt: Date.now() + (subject ? SUBJECT_TTL : MISS_TTL) });
+    while (cache.size > MAX_CACHE_ENTRIES) {
+        const oldest = cache.keys().next().value;
+        if (oldest === undefined) break;
+        cache.delete(oldest);
+    }
+}
+
+/**
+ * Douban writes names as "张若昀 Ruoyun Zhang"; keep the Chinese part when there is one
+ */
+function cleanPersonName(name: string): string {
+    const [first] = name.split(' ');
+    return /[一-鿿]/.test(first) ? first : name;
+}
+
+function stripHtml(html: string): string {
+    return html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').replace(/[ \t　]+/g, ' ').trim();
+}
+
+/**
+ * Parse the subject page: JSON-LD for structured fields, the full summary from the page body
+ */
+function parseSubjectPage(id: string, html: string): DoubanSubject | null {
+    const ldMatch = html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/);
+    if (!ldMatch) return null;
+
+    let ld: SubjectLdJson;
+    try {
+        // Douban leaves raw newlines inside string values
+        ld = JSON.parse(ldMatch[1].replace(/[\r\n\t]+/g, ' '));
+    } catch {
+        return null;
+    }
+
+    const summaryMatch = html.match(/<span[^>]*property="v:summary"[^>]*>([\s\S]*?)<\/span>/);
+
+    return {
+        id,
+        // "肖申克的救赎 The Shawshank Redemption" → "肖申克的救赎"
+        title: (ld.name || '').replace(/^([^A-Za-z]*[一-鿿][^A-Za-z]*?)\s+[A-Za-z].*$/, '$1'),
+        year: ld.datePublished?.slice(0, 4) || undefined,
+        rating: parseRating(ld.aggregateRating?.ratingValue),
+        cover: ld.image || undefined,
+        directors: (ld.director || []).map(person => cleanPersonName(person.name || '')).filter(Boolean),
+        cast: (ld.actor || []).map(person => cleanPersonName(person.name || '')).filter(Boolean).slice(0, 10),
+        genres: ld.genre || [],
+        summary: summaryMatch ? stripHtml(summaryMatch[1]) : ld.description,
+        url: `https://movie.douban.com/subject/${id}/`,
+    };
+}
+
+export async function getDoubanSubjectById(id: string): Promise<DoubanSubject | null> {
+    const cached = readCache(`id:${id}`);
+    if (cached !== undefined) return cached;
+
+    const response = await fetchWithTimeout(`https://movie.douban.com/subject/${encodeURIComponent(id)}/`, {
+        headers: DOUBAN_HEADERS,
+    });
+    if (!response.ok) {
+        throw new Error(`Douban subject page returned ${response.status}`);
+    }
+
+    const subject = parseSubjectPage(id, await response.text());
+    writeCache(`id:${id}`, subject);
+    return subject;
+}
+
+/**
+ * Pick the suggestion with the same work title, closest in year
+ */
+function pickSuggestion(items: SuggestItem[], title: string, year?: string): SuggestItem | undefined {
+    const target = parseWorkTitle(title);
+    const targetYear = parseInt(year || '', 10);
+
+    return items
+        .filter(item => item.type !== 'celebrity')
+        .map(item => {
+            const candidate = parseWorkTitle(item.title);
+            const itemYear = parseInt(item.year || '', 10);
+            let score = 0;
+            if (candidate.title === target.title) score += 10;
+            else if (candidate.title.includes(target.title) || target.title.includes(candidate.title)) score += 3;
+            else return { item, score: -1 };
+            if (candidate.season === target.season) score += 2;
+            if (targetYear && itemYear) score += Math.max(0, 3 - Math.abs(itemYear - targetYear));
+            return { item, score };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)[0]?.item;
+}
+
+export async function resolveDoubanSubject(title: string, year?: string): Promise<DoubanSubject | null> {
+    const work = parseWorkTitle(title);
+    const key = `title:${work.title}|s${work.season}|${year || ''}`;
+    const cached = readCache(key);
+    if (cached !== undefined) return cached;
+
+    const response = await fetchWithTimeout(
+        `https://movie.douban.com/j/subject_suggest?q=${encodeURIComponent(work.title)}`,
+        { headers: DOUBAN_HEADERS }
+    );
+    if (!response.ok) {
+        throw new Error(`Douban suggest returned ${response.status}`);
+    }
+
+    const items: SuggestItem[] = await response.json();
+    const match = pickSuggestion(Array.isArray(items) ? items : [], title, year);
+    const subject = match ? await getDoubanSubjectById(match.id) : null;
+    writeCache(key, subject);
+    return subject;
+}
@@ -0,0 +1,118 @@
+/**
+ * Source Error Model
+ * Typed errors for source requests, so callers can tell why a source failed
+ */
+
+import type { SourceErrorCode } from '@/lib/types';
+
+interface SourceErrorOptions {
+    sourceId?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error raised while talking to a source
+ */
+export class SourceError extends Error {
+    readonly code: SourceErrorCode;
+    readonly retryable: boolean;
+    sourceId?: string;
+
+    constructor(code: SourceErrorCode, message: string, retryable: boolean, options: SourceErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'SourceError';
+        this.code = code;
+        this.retryable = retryable;
+        this.sourceId = options.sourceId;
+    }
+}
+
+export class SourceTimeoutError extends SourceError {
+    constructor(timeout: number, options?: SourceErrorOptions) {
+        super('TIMEOUT', `Request timed out after ${timeout}ms`, true, options);
+        this.name = 'SourceTimeoutError';
+    }
+}
+
+export class SourceHttpError extends SourceError {
+    readonly status: number;
+    readonly retryAfter?: number; // ms, from a 429 or 503 Retry-After header
+
+    constructor(status: number, statusText: string, options?: SourceErrorOptions & { retryAfter?: number }) {
+        // Only server errors are worth retrying right away; on 429 the scheduler backs the source off instead
+        super('HTTP_STATUS', `HTTP ${status}: ${statusText}`, status >= 500, options);
+        this.name = 'SourceHttpError';
+        this.status = status;
+        this.retryAfter = options?.retryAfter;
+    }
+}
+
+export class SourceParseError extends SourceError {
+    constructor(message: string, options?: SourceErrorOptions) {
+        super('PARSE_ERROR', message, false, options);
+        this.name = 'SourceParseError';
+    }
+}
+
+export class UpstreamCodeError extends SourceError {
+    readonly upstreamCode: number;
+
+    constructor(upstreamCode: number, message?: string, options?: SourceErrorOptions) {
+        super('UPSTREAM_CODE', message || `Upstream returned code ${upstreamCode}`, false, options);
+        this.name = 'UpstreamCodeError';
+        this.upstreamCode = upstreamCode;
+    }
+}
+
+export class SourceTlsError extends SourceError {
+    constructor(message: string, options?: SourceErrorOptions) {
+        super('TLS', message, false, options);
+        this.name = 'SourceTlsError';
+    }
+}
+
+export class SourceAbortedError extends SourceError {
+    constructor(options?: SourceErrorOptions) {
+        super('ABORTED', 'Request was aborted', false, options);
+        this.name = 'SourceAbortedError';
+    }
+}
+
+export class SourceNetworkError extends SourceError {
+    constructor(message: string, options?: SourceErrorOptions) {
+        super('NETWORK', message, true, options);
+        this.name = 'SourceNetworkError';
+    }
+}
+
+const TLS_ERROR_PATTERN = /CERT|TLS|SSL|EPROTO|self[- ]signed/i;
+
+/**
+ * Normalize anything thrown during a source request into a SourceError
+ */
+export function toSourceError(error: unknown, sourceId?: string): SourceError {
+    if (error instanceof SourceError) {
+        error.sourceId = error.sourceId || sourceId;
+        return error;
+    }
+
+    if (error instanceof SyntaxError) {
+        return new SourceParseError(error.message, { sourceId, cause: error });
+    }
+
+    if (error instanceof Error) {
+        // fetch() wraps socket/TLS failures in a TypeError whose cause carries the code
+        const cause = error.cause as { code?: string; message?: string } | undefined;
+        const detail = [error.message, cause?.code, cause?.message].filter(Boolean).join(' ');
+
+        if (TLS_ERROR_PATTERN.test(detail)) {
+            return new SourceTlsError(cause?.message || error.message, { sourceId, cause: error });
+        }
+        if (error.name === 'TypeError') {
+            return new SourceNetworkError(cause?.message || error.message, { sourceId, cause: error });
+        }
+        return new SourceError('UNKNOWN', error.message, false, { sourceId, cause: error });
+    }
+
+    return new SourceError('UNKNOWN', String(error), false, { sourceId });
+}
@@ -3,6 +3,8 @@
  * Handles timeouts and retries
  */
 
+import { SourceError, SourceAbortedError, SourceTimeoutError, toSourceError } from './errors';
+
 // Disable SSL verification for video sources with invalid certificates
 process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
 
@@ -12,34 +14,86 @@ const RETRY_DELAY = 200;
 
 /**
  * Fetch with timeout support
+ * Honors options.signal so callers can cancel the request (SourceAbortedError),
+ * throws SourceTimeoutError on timeout and a typed SourceError for network/TLS failures
  */
 export async function fetchWithTimeout(
     url: string,
     options: RequestInit = {},
     timeout: number = REQUEST_TIMEOUT
 ): Promise<Response> {
+    const { signal: callerSignal, ...fetchOptions } = options;
+    if (callerSignal?.aborted) {
+        throw new SourceAbortedError();
+    }
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    callerSignal?.addEventListener('abort', onAbort, { once: true });
 
     try {
         const response = await fetch(url, {
-            ...options,
+            ...fetchOptions,
             signal: controller.signal,
         });
-        clearTimeout(timeoutId);
         return response;
     } catch (error) {
+        if (callerSignal?.aborted) {
+            throw new SourceAbortedError({ cause: error });
+        }
+        if (controller.signal.aborted) {
+            throw new SourceTimeoutError(timeout, { cause: error });
+        }
+        throw toSourceError(error);
+    } finally {
         clearTimeout(timeoutId);
-        throw error;
+        callerSignal?.removeEventListener('abort', onAbort);
     }
 }
 
+/**
+ * Retry-After header in ms, given either as seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sleep that wakes up early with SourceAbortedError when the signal fires
+ */
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new SourceAbortedError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new SourceAbortedError());
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
 /**
  * Retry logic wrapper
+ * Non-retryable SourceErrors (4xx, parse, upstream code, TLS) fail immediately,
+ * and an aborted signal cuts short the sleep between attempts
  */
 export async function withRetry<T>(
     fn: () => Promise<T>,
-    retries: number = MAX_RETRIES
+    retries: number = MAX_RETRIES,
+    signal?: AbortSignal
 ): Promise<T> {
     let lastError: Error | null = null;
 
@@ -49,8 +103,12 @@ export async function withRetry<T>(
         } catch (error) {
             lastError = error as Error;
 
+            if (error instanceof SourceError && !error.retryable) {
+                break;
+            }
+
             if (i < retries) {
-                await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (i + 1)));
+                await abortableDelay(RETRY_DELAY * (i + 1), signal);
             }
         }
     }
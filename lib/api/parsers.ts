@@ -2,7 +2,7 @@
  * API Response Parsers
  */
 
-import type { Episode } from '@/lib/types';
+import type { Episode, PlayLine } from '@/lib/types';
 
 /**
  * Parse episode URL string into structured array
@@ -29,3 +29,27 @@ export function parseEpisodes(playUrl: string): Episode[] {
         return [];
     }
 }
+
+/**
+ * Parse every play line from vod_play_from / vod_play_url (separated by $$$)
+ * Lines without any episodes are dropped
+ */
+export function parsePlayLines(playFrom: string, playUrl: string): PlayLine[] {
+    const codes = (playFrom || '').split('$$$');
+    const urls = (playUrl || '').split('$$$');
+
+    return urls
+        .map((url, index) => ({
+            code: codes[index]?.trim() || `线路${index + 1}`,
+            episodes: parseEpisodes(url),
+        }))
+        .filter(line => line.episodes.length > 0);
+}
+
+/**
+ * Pick the default line index (prefer lines whose code contains 'm3u8')
+ */
+export function getDefaultLineIndex(lines: PlayLine[]): number {
+    const m3u8Index = lines.findIndex(line => line.code.toLowerCase().includes('m3u8'));
+    return m3u8Index !== -1 ? m3u8Index : 0;
+}
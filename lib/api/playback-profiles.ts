@@ -0,0 +1,131 @@
+/**
+ * Playback Profile Resolution
+ * Resolves the headers the proxy uses for a source from its id, server side, and only
+ * sends them to that source's own hosts. Client-defined sources carry their own profile,
+ * sealed, in the signed proxy context instead, so it only ever applies to the playback session it was signed for.
+ */
+
+import type { PlaybackProfile, ProxyContext } from '@/lib/types';
+import { getSourceById } from './video-sources';
+import { hostMatches, isBlockedHost, toHost } from './proxy-policy';
+import { isProxySigningEnabled, openProxyValue, sealProxyValue } from './proxy-signing';
+
+// Operator-defined profiles: {"sourceId": {"referer": "...", "headers": {...}, "hosts": [...]}}
+const PLAYBACK_PROFILES = process.env.PLAYBACK_PROFILES || '';
+const MAX_SOURCE_HOSTS = 5000;
+
+// Episode and playlist hosts seen for each server source by this server instance
+const sourceHosts = new Map<string, Set<string>>();
+let sourceHostCount = 0;
+
+let envProfiles: Record<string, PlaybackProfile> | null = null;
+
+function getEnvProfiles(): Record<string, PlaybackProfile> {
+    if (envProfiles === null) {
+        try {
+            envProfiles = PLAYBACK_PROFILES ? JSON.parse(PLAYBACK_PROFILES) : {};
+        } catch {
+            console.error('[Playback Profiles] Invalid PLAYBACK_PROFILES JSON');
+            envProfiles = {};
+        }
+    }
+    return envProfiles || {};
+}
+
+/**
+ * Whether the server configures this source itself; client-sent profiles never apply to such ids
+ */
+export function isServerKnownSource(sourceId: string | null | undefined): boolean {
+    if (!sourceId) return false;
+    return Boolean(getEnvProfiles()[sourceId] || getSourceById(sourceId));
+}
+
+/**
+ * Resolve a profile by source id: server config first, then built-in sources
+ */
+export function getPlaybackProfile(sourceId: string | null | undefined): PlaybackProfile | undefined {
+    if (!sourceId) return undefined;
+    return getEnvProfiles()[sourceId] || getSourceById(sourceId)?.playback;
+}
+
+/**
+ * Record hosts a server source plays from: its episodes, and entries of playlists fetched with its profile
+ */
+export function registerSourceHosts(sourceId: string, urls: string[]): void {
+    if (sourceHostCount >= MAX_SOURCE_HOSTS) {
+        sourceHosts.clear();
+        sourceHostCount = 0;
+    }
+
+    const hosts = sourceHosts.get(sourceId) || new Set<string>();
+    urls.forEach(url => {
+        const host = toHost(url);
+        if (!host || isBlockedHost(host) || hosts.has(host)) return;
+        hosts.add(host);
+        sourceHostCount++;
+    });
+    sourceHosts.set(sourceId, hosts);
+}
+
+/**
+ * Whether a URL is on one of the source's hosts: its API, the hosts its profile lists,
+ * or those recorded with registerSourceHosts
+ */
+function isSourceHost(sourceId: string, url: string): boolean {
+    const host = toHost(url);
+    if (!host) return false;
+    if (toHost(getSourceById(sourceId)?.baseUrl || '') === host) return true;
+    if (getEnvProfiles()[sourceId]?.hosts?.some(allowed => hostMatches(host, allowed.toLowerCase()))) return true;
+    return sourceHosts.get(sourceId)?.has(host) || false;
+}
+
+/**
+ * Keep only well-formed profile fields from client data
+ */
+export function sanitizePlaybackProfile(value: unknown): PlaybackProfile | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    const raw = value as Record<string, unknown>;
+
+    const profile: PlaybackProfile = {};
+    if (typeof raw.referer === 'string' && raw.referer) profile.referer = raw.referer;
+    if (typeof raw.userAgent === 'string' && raw.userAgent) profile.userAgent = raw.userAgent;
+    if (typeof raw.spoofIp === 'boolean') profile.spoofIp = raw.spoofIp;
+    if (raw.headers && typeof raw.headers === 'object' && !Array.isArray(raw.headers)) {
+        const headers = Object.entries(raw.headers).filter(
+            (entry): entry is [string, string] => typeof entry[1] === 'string'
+        );
+        if (headers.length > 0) profile.headers = Object.fromEntries(headers);
+    }
+    return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+/**
+ * A custom source's profile as carried in ProxyContext.sealedProfile. Without a signing key
+ * nothing could vouch for it, so it isn't carried at all.
+ */
+export async function sealPlaybackProfile(value: unknown): Promise<string | undefined> {
+    const profile = sanitizePlaybackProfile(value);
+    return profile && isProxySigningEnabled() ? sealProxyValue(JSON.stringify(profile)) : undefined;
+}
+
+async function openPlaybackProfile(sealed: string | undefined): Promise<PlaybackProfile | undefined> {
+    const opened = sealed ? await openProxyValue(sealed) : null;
+    return opened ? sanitizePlaybackProfile(JSON.parse(opened)) : undefined;
+}
+
+/**
+ * Profile for a proxy request to url. The server's profile for ids it knows: a signed context
+ * only names a source for its own episodes and their playlist entries, while an unsigned one
+ * must target that source's hosts. A custom source's profile only when this server signed it.
+ */
+export async function resolvePlaybackProfile(
+    context: ProxyContext,
+    url: string,
+    signed: boolean
+): Promise<PlaybackProfile | undefined> {
+    const { sourceId } = context;
+    if (sourceId && isServerKnownSource(sourceId)) {
+        return signed || isSourceHost(sourceId, url) ? getPlaybackProfile(sourceId) : undefined;
+    }
+    return signed ? openPlaybackProfile(context.sealedProfile) : undefined;
+}
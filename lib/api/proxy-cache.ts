@@ -0,0 +1,207 @@
+/**
+ * Proxy Cache
+ * Short-lived cache of upstream playlists and AES keys, so hls.js reloads and every viewer
+ * of the same episode don't refetch them. Backends: in-memory LRU (Node) or the Cache API (edge).
+ */
+
+import type { ProxyContext } from '@/lib/types';
+
+export type ProxyCacheKind = 'manifest' | 'key';
+export type ProxyCacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+export const PROXY_CACHE_HEADER = 'X-Proxy-Cache';
+
+interface CacheEntry {
+    body: ArrayBuffer;
+    contentType: string;
+    expiresAt: number;
+}
+
+interface ProxyCacheBackend {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+const PROXY_CACHE_BACKEND = process.env.PROXY_CACHE_BACKEND || ''; // 'memory' | 'cache-api' | 'off'
+const PROXY_CACHE_MANIFEST_TTL = parseInt(process.env.PROXY_CACHE_MANIFEST_TTL || '60', 10); // seconds, VOD playlists only
+const PROXY_CACHE_KEY_TTL = parseInt(process.env.PROXY_CACHE_KEY_TTL || '600', 10); // seconds
+const PROXY_CACHE_MAX_ENTRIES = parseInt(process.env.PROXY_CACHE_MAX_ENTRIES || '300', 10);
+
+// Larger bodies are passed through uncached; AES-128 keys are 16 bytes
+const MAX_MANIFEST_BYTES = 2 * 1024 * 1024;
+const MAX_KEY_BYTES = 1024;
+
+/**
+ * In-memory LRU, relying on Map keeping insertion order
+ */
+class MemoryLruBackend implements ProxyCacheBackend {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number) { }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move to the most recently used position
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Cache API backend for edge runtimes, keyed by a synthetic URL
+ */
+class CacheApiBackend implements ProxyCacheBackend {
+    private cachePromise: Promise<Cache> | null = null;
+
+    private open(): Promise<Cache> {
+        if (!this.cachePromise) {
+            this.cachePromise = caches.open('kvideo-proxy');
+        }
+        return this.cachePromise;
+    }
+
+    private toRequest(key: string): Request {
+        return new Request(`https://proxy-cache.kvideo.internal/${key}`);
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const response = await (await this.open()).match(this.toRequest(key));
+        if (!response) return undefined;
+        return {
+            body: await response.arrayBuffer(),
+            contentType: response.headers.get('Content-Type') || '',
+            expiresAt: parseInt(response.headers.get('X-Expires-At') || '0', 10),
+        };
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const maxAge = Math.max(1, Math.ceil((entry.expiresAt - Date.now()) / 1000));
+        await (await this.open()).put(this.toRequest(key), new Response(entry.body, {
+            headers: {
+                'Content-Type': entry.contentType,
+                'Cache-Control': `public, max-age=${maxAge}`,
+                'X-Expires-At': String(entry.expiresAt),
+            },
+        }));
+    }
+}
+
+function createBackend(): ProxyCacheBackend | null {
+    if (PROXY_CACHE_BACKEND === 'off') return null;
+
+    const hasCacheApi = typeof caches !== 'undefined' && typeof caches.open === 'function';
+    const useCacheApi = PROXY_CACHE_BACKEND === 'cache-api'
+        || (PROXY_CACHE_BACKEND !== 'memory' && process.env.NEXT_RUNTIME === 'edge' && hasCacheApi);
+
+    return useCacheApi && hasCacheApi
+        ? new CacheApiBackend()
+        : new MemoryLruBackend(PROXY_CACHE_MAX_ENTRIES);
+}
+
+const backend = createBackend();
+
+function getTtl(kind: ProxyCacheKind): number {
+    return kind === 'manifest' ? PROXY_CACHE_MANIFEST_TTL : PROXY_CACHE_KEY_TTL;
+}
+
+/**
+ * The key covers everything that shapes the upstream request, since CDNs answer by referer and token;
+ * the source id stands for the playback profile the server resolves from it
+ */
+async function buildKey(kind: ProxyCacheKind, url: string, context: ProxyContext): Promise<string> {
+    const shape = [
+        kind,
+        url,
+        context.referer || '',
+        context.ip || '',
+        context.sourceId || '',
+        context.sealedProfile || '',
+    ].join('\n');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(shape));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * What a proxy request would be cached as: URIs the proxy rewrote are marked in their context,
+ * entry requests are recognised by URL
+ */
+export function getProxyCacheKind(url: string, context: ProxyContext): ProxyCacheKind | null {
+    if (!backend) return null;
+    if (context.resource === 'key') return getTtl('key') > 0 ? 'key' : null;
+    if (context.resource === 'playlist' || url.includes('.m3u8')) {
+        return getTtl('manifest') > 0 ? 'manifest' : null;
+    }
+    return null;
+}
+
+/**
+ * Live and event playlists gain segments on every reload; only master and finished VOD playlists are cached
+ */
+export function isCacheablePlaylist(content: string): boolean {
+    return content.includes('#EXT-X-STREAM-INF')
+        || content.includes('#EXT-X-ENDLIST')
+        || /#EXT-X-PLAYLIST-TYPE:\s*VOD/.test(content);
+}
+
+/**
+ * Only small, complete key responses are worth buffering
+ */
+export function isCacheableKeyResponse(response: Response): boolean {
+    const contentLength = parseInt(response.headers.get('Content-Length') || '', 10);
+    return response.status === 200 && contentLength > 0 && contentLength <= MAX_KEY_BYTES;
+}
+
+/**
+ * Cached upstream body, as a response the proxy handles like a fresh one
+ */
+export async function getCachedUpstream(kind: ProxyCacheKind, url: string, context: ProxyContext): Promise<Response | null> {
+    if (!backend) return null;
+
+    try {
+        const entry = await backend.get(await buildKey(kind, url, context));
+        if (!entry || entry.expiresAt <= Date.now()) return null;
+        return new Response(entry.body, {
+            status: 200,
+            headers: { 'Content-Type': entry.contentType, 'Content-Length': String(entry.body.byteLength) },
+        });
+    } catch (error) {
+        console.warn('[Proxy Cache] Read failed:', error);
+        return null;
+    }
+}
+
+export async function setCachedUpstream(
+    kind: ProxyCacheKind,
+    url: string,
+    context: ProxyContext,
+    body: string | ArrayBuffer,
+    contentType: string | null
+): Promise<void> {
+    if (!backend) return;
+
+    const bytes = typeof body === 'string' ? new TextEncoder().encode(body).buffer as ArrayBuffer : body;
+    if (bytes.byteLength > (kind === 'manifest' ? MAX_MANIFEST_BYTES : MAX_KEY_BYTES)) return;
+
+    try {
+        await backend.set(await buildKey(kind, url, context), {
+            body: bytes,
+            contentType: contentType || (kind === 'manifest' ? 'application/vnd.apple.mpegurl' : 'application/octet-stream'),
+            expiresAt: Date.now() + getTtl(kind) * 1000,
+        });
+    } catch (error) {
+        console.warn('[Proxy Cache] Write failed:', error);
+    }
+}
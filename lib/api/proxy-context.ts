@@ -0,0 +1,84 @@
+/**
+ * Proxy Request Context
+ * The referer, ip and source of a playback session, encoded into every URI the proxy
+ * rewrites so each hop reaches the CDN with the same headers. The encoding is readable:
+ * a server source's profile is resolved from its id at each hop, and a custom source's
+ * profile only travels sealed with the signing key.
+ */
+
+import type { ProxyContext } from '@/lib/types';
+import { ProxyPolicyError } from './proxy-policy';
+
+export const PROXY_CONTEXT_PARAM = 'ctx';
+
+function toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Compact param value; empty when there is nothing to carry
+ */
+export function encodeProxyContext(context: ProxyContext): string {
+    const compact = Object.fromEntries(
+        Object.entries(context).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    );
+    return Object.keys(compact).length > 0 ? toBase64Url(JSON.stringify(compact)) : '';
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Only the known fields are read back, so a crafted context can't smuggle in anything else
+ */
+export function decodeProxyContext(value: string): ProxyContext {
+    let decoded: Record<string, unknown>;
+    try {
+        decoded = JSON.parse(fromBase64Url(value));
+        if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+            throw new Error('Not an object');
+        }
+    } catch {
+        throw new ProxyPolicyError('Invalid proxy context', 400);
+    }
+
+    return {
+        sourceId: optionalString(decoded.sourceId),
+        referer: optionalString(decoded.referer),
+        ip: optionalString(decoded.ip),
+        sealedProfile: optionalString(decoded.sealedProfile),
+        resource: decoded.resource === 'playlist' || decoded.resource === 'key' ? decoded.resource : undefined,
+    };
+}
+
+function optionalParam(params: URLSearchParams, key: string): string | undefined {
+    return params.get(key) || undefined;
+}
+
+/**
+ * Context of a proxy request: carried in `ctx` on rewritten URIs, or built from the
+ * plain params of the entry request
+ * @param signed - Signed URLs only trust their signed context, never params appended to them
+ */
+export function getProxyContext(params: URLSearchParams, signed: boolean = false): ProxyContext {
+    const encoded = params.get(PROXY_CONTEXT_PARAM);
+    if (encoded) return decodeProxyContext(encoded);
+    if (signed) return {};
+
+    return {
+        sourceId: optionalParam(params, 'source'),
+        referer: optionalParam(params, 'referer'),
+        ip: optionalParam(params, 'ip'),
+    };
+}
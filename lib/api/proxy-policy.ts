@@ -0,0 +1,255 @@
+/**
+ * Proxy Policy
+ * Decides which upstream URLs /api/proxy may fetch and what it may send back,
+ * so the deployment can't be used as an open proxy or to reach internal addresses
+ */
+
+import { DEFAULT_SOURCES } from './default-sources';
+import { PREMIUM_SOURCES } from './premium-sources';
+import { getSubscriptionSourceUrls } from './subscription-sources';
+
+// 'sources': only hosts of the server's own sources, their playlists and PROXY_ALLOWED_HOSTS
+const PROXY_HOST_POLICY = process.env.PROXY_HOST_POLICY || 'any'; // 'any' | 'sources'
+const PROXY_ALLOWED_HOSTS = (process.env.PROXY_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+const PROXY_MAX_BYTES = parseInt(process.env.PROXY_MAX_BYTES || String(64 * 1024 * 1024), 10);
+const MAX_LEARNED_HOSTS = 5000;
+
+// Media, playlists, keys, the image/text types some CDNs disguise segments as,
+// and JSON for source lists imported from a URL
+const ALLOWED_CONTENT_TYPES = [
+    'video/',
+    'audio/',
+    'image/',
+    'application/vnd.apple.mpegurl',
+    'application/x-mpegurl',
+    'audio/mpegurl',
+    'application/dash+xml',
+    'application/mp4',
+    'application/octet-stream',
+    'binary/octet-stream',
+    'application/x-flv',
+    'application/pgp-keys',
+    'application/json',
+    'text/plain',
+];
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+// Hosts of episodes and playlist entries of the server's sources, seen by this server instance.
+// Only unsigned requests rely on it: with a signing key, the signed context vouches for these
+// hosts on any instance, see checkProxyTarget
+const learnedHosts = new Set<string>();
+// Hosts of the SUBSCRIPTION_SOURCES lists and the sources in them, see loadSubscriptionHosts
+let subscriptionHosts = new Set<string>();
+
+export class ProxyPolicyError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number = 403) {
+        super(message);
+        this.name = 'ProxyPolicyError';
+        this.status = status;
+    }
+}
+
+function parseIPv4(host: string): number[] | null {
+    const parts = host.split('.');
+    if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+    const octets = parts.map(Number);
+    return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+    return a === 0
+        || a === 10
+        || a === 127
+        || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+        || (a === 169 && b === 254) // Link-local, cloud metadata
+        || (a === 172 && b >= 16 && b <= 31)
+        || (a === 192 && b === 168)
+        || (a === 198 && (b === 18 || b === 19)) // Benchmarking
+        || a >= 224; // Multicast and reserved
+}
+
+function isPrivateIPv6(host: string): boolean {
+    const address = host.replace(/^\[|\]$/g, '').toLowerCase();
+    if (address === '::' || address === '::1') return true;
+    if (/^f[cd]/.test(address)) return true; // Unique local
+    if (/^fe[89ab]/.test(address)) return true; // Link-local
+
+    // IPv4-mapped, e.g. ::ffff:127.0.0.1 or ::ffff:7f00:1
+    const mapped = address.match(/^::ffff:(.+)$/);
+    if (mapped) {
+        const dotted = parseIPv4(mapped[1]);
+        if (dotted) return isPrivateIPv4(dotted);
+        const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+        if (hex) {
+            const high = parseInt(hex[1], 16);
+            const low = parseInt(hex[2], 16);
+            return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255]);
+        }
+    }
+    return false;
+}
+
+/**
+ * Loopback, private, link-local and internal-only names
+ * Hostnames are not resolved here, so names pointing at private addresses are not caught
+ */
+export function isBlockedHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/\.$/, '');
+    if (host === 'localhost' || BLOCKED_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) return true;
+    if (host.includes(':') || host.startsWith('[')) return isPrivateIPv6(host);
+
+    // URL parsing already turns forms like http://2130706433/ into dotted IPv4
+    const ipv4 = parseIPv4(host);
+    return ipv4 ? isPrivateIPv4(ipv4) : false;
+}
+
+export function hostMatches(host: string, allowed: string): boolean {
+    return allowed.startsWith('*.')
+        ? host === allowed.slice(2) || host.endsWith(allowed.slice(1))
+        : host === allowed;
+}
+
+export function toHost(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Hosts the operator configured: PROXY_ALLOWED_HOSTS, built-in and subscription sources
+ */
+function isServerSourceHost(host: string): boolean {
+    if (PROXY_ALLOWED_HOSTS.some(allowed => hostMatches(host, allowed))) return true;
+    if (subscriptionHosts.has(host)) return true;
+    return [...DEFAULT_SOURCES, ...PREMIUM_SOURCES].some(source => toHost(source.baseUrl) === host);
+}
+
+function isAllowedHost(host: string): boolean {
+    if (PROXY_HOST_POLICY !== 'sources') return true;
+    return learnedHosts.has(host) || isServerSourceHost(host);
+}
+
+/**
+ * Refresh the subscription source hosts before checking targets; only needed when
+ * restricted to source hosts, and cheap once the lists are cached
+ */
+export async function loadSubscriptionHosts(): Promise<void> {
+    if (PROXY_HOST_POLICY !== 'sources') return;
+    const urls = await getSubscriptionSourceUrls();
+    subscriptionHosts = new Set(urls.map(toHost).filter((host): host is string => Boolean(host)));
+}
+
+/**
+ * Whether a source API belongs to the server's own sources, so the episode URLs it returns
+ * may be learned; source configs sent by clients never widen the allowlist otherwise
+ */
+export async function isServerSourceUrl(url: string): Promise<boolean> {
+    await loadSubscriptionHosts();
+    const host = toHost(url);
+    return host !== null && isServerSourceHost(host);
+}
+
+/**
+ * Allow the hosts of these URLs: episodes of the server's sources and entries of playlists
+ * the proxy fetched from allowed hosts
+ */
+export function registerProxyHosts(urls: Array<string | null | undefined>): void {
+    urls.forEach(url => {
+        if (!url) return;
+        try {
+            const host = new URL(url).hostname.toLowerCase();
+            if (isBlockedHost(host)) return;
+            learnedHosts.delete(host);
+            learnedHosts.add(host);
+        } catch {
+            // Not an absolute URL
+        }
+    });
+
+    while (learnedHosts.size > MAX_LEARNED_HOSTS) {
+        const oldest = learnedHosts.values().next().value;
+        if (oldest === undefined) break;
+        learnedHosts.delete(oldest);
+    }
+}
+
+/**
+ * Validate a target URL before fetching it, including every redirect hop
+ * @param vouched A verified signed context names a server source, so the target is one of
+ * its episodes or playlist entries and needs no learned host
+ */
+export function checkProxyTarget(rawUrl: string, vouched: boolean = false): URL {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new ProxyPolicyError('Invalid URL', 400);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ProxyPolicyError(`Protocol ${url.protocol} is not allowed`);
+    }
+    if (url.username || url.password) {
+        throw new ProxyPolicyError('Credentials in URL are not allowed');
+    }
+    if (isBlockedHost(url.hostname)) {
+        throw new ProxyPolicyError(`Host ${url.hostname} is private or internal`);
+    }
+    if (!vouched && !isAllowedHost(url.hostname.toLowerCase())) {
+        throw new ProxyPolicyError(`Host ${url.hostname} is not an allowed source host`);
+    }
+    return url;
+}
+
+/**
+ * Reject upstream responses that are neither media nor playlists, or too large
+ */
+export function checkProxyResponse(response: Response, isPlaylist: boolean): void {
+    const contentType = (response.headers.get('Content-Type') || '').toLowerCase();
+    // Playlists are verified by content, since servers label them text/html and the like
+    if (!isPlaylist && contentType && !ALLOWED_CONTENT_TYPES.some(type => contentType.startsWith(type))) {
+        throw new ProxyPolicyError(`Content type ${contentType} is not allowed`, 415);
+    }
+
+    // HEAD replies carry no body, their length only describes the file
+    const contentLength = parseInt(response.headers.get('Content-Length') || '', 10);
+    if (response.body && contentLength > PROXY_MAX_BYTES) {
+        throw new ProxyPolicyError(`Response of ${contentLength} bytes exceeds the ${PROXY_MAX_BYTES} byte limit`, 413);
+    }
+}
+
+/**
+ * Cut the stream off once it passes the size limit, for responses without Content-Length
+ */
+export function limitProxyBody(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    let received = 0;
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength;
+            if (received > PROXY_MAX_BYTES) {
+                controller.error(new ProxyPolicyError('Response exceeds the size limit', 413));
+                return;
+            }
+            controller.enqueue(chunk);
+        },
+    }));
+}
+
+export function getMaxProxyBytes(): number {
+    return PROXY_MAX_BYTES;
+}
+
+export function logProxyRejection(request: Request, url: string | null, error: ProxyPolicyError): void {
+    const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+        || request.headers.get('x-real-ip')
+        || 'unknown';
+    console.warn(`[Proxy Policy] Rejected ${url || '(no url)'} from ${ip}: ${error.message}`);
+}
@@ -0,0 +1,60 @@
+/**
+ * Proxy Byte Ranges
+ * Range and conditional request handling for progressive video, so a proxied MP4
+ * seeks and reports its duration like a direct one
+ */
+
+// Relayed upstream for media: byte ranges plus the validators that make them conditional
+export const RANGE_REQUEST_HEADERS = ['range', 'if-range', 'if-none-match', 'if-modified-since'];
+
+// Read by players for seeking and revalidation when the proxy is on another origin
+export const RANGE_EXPOSED_HEADERS = 'Content-Length, Content-Range, Accept-Ranges, ETag, Last-Modified';
+export const RANGE_ALLOWED_HEADERS = 'Content-Type, Authorization, Range, If-Range, If-None-Match, If-Modified-Since';
+
+// Headers fetch handles itself, or that describe a body encoding the client never sees
+const HOP_HEADERS = ['content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+
+/**
+ * Cap an open-ended or oversized range to what one response may carry. The 206 reply's
+ * Content-Range still tells the player the full size, and it requests the rest as it plays.
+ * Suffix and multi-part ranges are passed on unchanged.
+ */
+export function clampRange(range: string, maxBytes: number): string {
+    const match = range.trim().match(/^bytes=(\d+)-(\d*)$/);
+    if (!match) return range;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : Infinity;
+    return `bytes=${start}-${Math.min(end, start + maxBytes - 1)}`;
+}
+
+/**
+ * Headers of a relayed media response. fetch decodes compressed bodies, so the length
+ * and range headers are only kept when the upstream body was sent as is.
+ */
+export function buildMediaResponseHeaders(upstream: Response): Headers {
+    const encoding = (upstream.headers.get('Content-Encoding') || 'identity').toLowerCase();
+    const isDecoded = encoding !== 'identity';
+
+    const headers = new Headers();
+    upstream.headers.forEach((value, key) => {
+        const lowerKey = key.toLowerCase();
+        if (HOP_HEADERS.includes(lowerKey)) return;
+        if (isDecoded && (lowerKey === 'content-length' || lowerKey === 'content-range')) return;
+        headers.set(key, value);
+    });
+
+    if (upstream.status === 206 && !headers.has('Accept-Ranges')) {
+        headers.set('Accept-Ranges', 'bytes');
+    }
+    // Cacheable like the upstream file, but revalidated through the proxy by default
+    if (!headers.has('Cache-Control')) {
+        headers.set('Cache-Control', 'no-cache');
+    }
+
+    headers.set('Access-Control-Allow-Origin', '*');
+    headers.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
+    headers.set('Access-Control-Allow-Headers', RANGE_ALLOWED_HEADERS);
+    headers.set('Access-Control-Expose-Headers', RANGE_EXPOSED_HEADERS);
+    return headers;
+}
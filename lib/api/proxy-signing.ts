@@ -0,0 +1,189 @@
+/**
+ * Proxy URL Signing
+ * HMAC tokens binding each proxy URL to its target, request context and expiry,
+ * the session cookie that unlocking the access password grants for unsigned requests,
+ * and sealing of context values the client must not read
+ */
+
+import { PROXY_CONTEXT_PARAM } from './proxy-context';
+
+const PROXY_SIGNING_KEY = process.env.PROXY_SIGNING_KEY || '';
+const TOKEN_TTL_SECONDS = parseInt(process.env.PROXY_TOKEN_TTL || '21600', 10); // 6 hours
+const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+export const PROXY_SESSION_COOKIE = 'kvideo-proxy-session';
+export const PROXY_SCOPE_HEADER = 'X-Proxy-Scope';
+
+let keyPromise: Promise<CryptoKey> | null = null;
+let sealKeyPromise: Promise<CryptoKey> | null = null;
+
+export function isProxySigningEnabled(): boolean {
+    return PROXY_SIGNING_KEY.length > 0;
+}
+
+function getKey(): Promise<CryptoKey> {
+    if (!keyPromise) {
+        keyPromise = crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(PROXY_SIGNING_KEY),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign']
+        );
+    }
+    return keyPromise;
+}
+
+function getSealKey(): Promise<CryptoKey> {
+    if (!sealKeyPromise) {
+        sealKeyPromise = crypto.subtle.digest('SHA-256', new TextEncoder().encode(`seal\n${PROXY_SIGNING_KEY}`))
+            .then(digest => crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']));
+    }
+    return sealKeyPromise;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function hmacBytes(message: string): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.sign('HMAC', await getKey(), new TextEncoder().encode(message)));
+}
+
+async function hmac(message: string): Promise<string> {
+    return toBase64Url(await hmacBytes(message));
+}
+
+function safeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+function nowSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+function tokenMessage(url: string, context: string, expiresAt: number): string {
+    return `proxy\n${url}\n${context}\n${expiresAt}`;
+}
+
+function scopeMessage(prefix: string, context: string, expiresAt: number): string {
+    return `proxy-scope\n${prefix}\n${context}\n${expiresAt}`;
+}
+
+/**
+ * A scope covers every URL under its prefix, once resolved the way fetch will resolve it
+ */
+function isWithinScope(url: string, prefix: string): boolean {
+    try {
+        return prefix.endsWith('/') && new URL(url).href.startsWith(prefix);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Proxy URL with an expiring signature; unsigned when no key is configured
+ * @param context - Encoded proxy context, see encodeProxyContext
+ */
+export async function buildSignedProxyUrl(origin: string, url: string, context: string = ''): Promise<string> {
+    const contextParam = context ? `&${PROXY_CONTEXT_PARAM}=${context}` : '';
+    const unsigned = `${origin}/api/proxy?url=${encodeURIComponent(url)}${contextParam}`;
+    if (!isProxySigningEnabled()) return unsigned;
+
+    const expiresAt = nowSeconds() + TOKEN_TTL_SECONDS;
+    const signature = await hmac(tokenMessage(url, context, expiresAt));
+    return `${unsigned}&exp=${expiresAt}&sig=${signature}`;
+}
+
+/**
+ * Query params signing every URL under the directory of a manifest whose requests the proxy
+ * can't rewrite (DASH), for the player to add to them; sent in the PROXY_SCOPE_HEADER
+ * @param context - Encoded proxy context of the manifest request
+ */
+export async function buildProxyScopeParams(manifestUrl: string, context: string = ''): Promise<string> {
+    const prefix = new URL('./', manifestUrl).href;
+    const expiresAt = nowSeconds() + TOKEN_TTL_SECONDS;
+    const signature = await hmac(scopeMessage(prefix, context, expiresAt));
+    return `scope=${encodeURIComponent(prefix)}&exp=${expiresAt}&sig=${signature}`;
+}
+
+/**
+ * Check the exp/sig pair of a proxy request against its url, or the scope it claims, and context
+ * @returns null when valid, otherwise the reason
+ */
+export async function verifyProxyToken(params: URLSearchParams): Promise<string | null> {
+    const url = params.get('url') || '';
+    const scope = params.get('scope');
+    const context = params.get(PROXY_CONTEXT_PARAM) || '';
+    const signature = params.get('sig') || '';
+    const expiresAt = parseInt(params.get('exp') || '', 10);
+
+    if (!expiresAt) return 'Missing token expiry';
+    if (expiresAt < nowSeconds()) return 'Token expired';
+    if (scope !== null && !isWithinScope(url, scope)) return 'URL outside the token scope';
+
+    const expected = await hmac(scope !== null
+        ? scopeMessage(scope, context, expiresAt)
+        : tokenMessage(url, context, expiresAt));
+    return safeEqual(signature, expected) ? null : 'Invalid token signature';
+}
+
+export async function createProxySession(): Promise<{ value: string; maxAge: number }> {
+    const expiresAt = nowSeconds() + SESSION_TTL_SECONDS;
+    return {
+        value: `${expiresAt}.${await hmac(`session\n${expiresAt}`)}`,
+        maxAge: SESSION_TTL_SECONDS,
+    };
+}
+
+export async function verifyProxySession(value: string | undefined): Promise<boolean> {
+    if (!value) return false;
+    const [expires, signature = ''] = value.split('.');
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt < nowSeconds()) return false;
+    return safeEqual(signature, await hmac(`session\n${expiresAt}`));
+}
+
+/**
+ * Encrypt a value carried in proxy URLs, such as a custom source's header tokens, so it
+ * isn't readable in the URL or in logs. The nonce is derived from the value, so the same
+ * value always seals the same way and cache keys built from it stay stable.
+ */
+export async function sealProxyValue(value: string): Promise<string> {
+    const iv = (await hmacBytes(`seal-iv\n${value}`)).slice(0, 12);
+    const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getSealKey(), new TextEncoder().encode(value));
+    const bytes = new Uint8Array(iv.length + sealed.byteLength);
+    bytes.set(iv);
+    bytes.set(new Uint8Array(sealed), iv.length);
+    return toBase64Url(bytes);
+}
+
+/**
+ * @returns null when the value wasn't sealed with this server's key
+ */
+export async function openProxyValue(sealed: string): Promise<string | null> {
+    try {
+        const bytes = fromBase64Url(sealed);
+        const plain = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: bytes.slice(0, 12) },
+            await getSealKey(),
+            bytes.slice(12)
+        );
+        return new TextDecoder().decode(plain);
+    } catch {
+        return null;
+    }
+}
@@ -1,23 +1,49 @@
 import type {
     VideoSource,
     VideoItem,
-    ApiSearchResponse,
 } from '@/lib/types';
-import { fetchWithTimeout, withRetry } from './http-utils';
+import { fetchWithTimeout, parseRetryAfter, withRetry } from './http-utils';
+import { parseSourceResponse } from './source-format';
+import { buildSearchUrl } from './source-url';
+import { getSourceRating } from '@/lib/utils/rating';
+import { SourceError, SourceHttpError, UpstreamCodeError, toSourceError } from './errors';
+
+interface SourceSearchResult {
+    results: VideoItem[];
+    source: string;
+    responseTime?: number;
+    page?: number;
+    pageCount?: number; // Total pages the source reports for this query
+    error?: SourceError;
+}
+
+/**
+ * Resolve the page count, falling back to total/limit when pagecount is missing
+ * Sources often send these as strings, so coerce them
+ */
+function resolvePageCount(data: { pagecount?: number; total?: number; limit?: number }, page: number): number {
+    const pageCount = Number(data.pagecount);
+    if (pageCount > 0) return pageCount;
+
+    const total = Number(data.total);
+    const limit = Number(data.limit);
+    if (total > 0 && limit > 0) return Math.ceil(total / limit);
+
+    return page;
+}
+
 /**
  * Search videos from a single source
  */
 async function searchVideosBySource(
     query: string,
     source: VideoSource,
-    page: number = 1
-): Promise<{ results: VideoItem[]; source: string; responseTime: number }> {
+    page: number = 1,
+    signal?: AbortSignal
+): Promise<SourceSearchResult> {
     const startTime = Date.now();
 
-    const url = new URL(`${source.baseUrl}${source.searchPath}`);
-    url.searchParams.set('ac', 'detail');
-    url.searchParams.set('wd', query);
-    url.searchParams.set('pg', page.toString());
+    const url = buildSearchUrl(source, query, page);
 
     try {
         const response = await withRetry(async () => {
@@ -27,39 +53,45 @@ async function searchVideosBySource(
                     'User-Agent': 'Mozilla/5.0',
                     ...source.headers,
                 },
+                signal,
             });
 
             if (!res.ok) {
-                throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+                throw new SourceHttpError(res.status, res.statusText, {
+                    retryAfter: parseRetryAfter(res.headers.get('Retry-After')),
+                });
             }
 
             return res;
-        });
+        }, undefined, signal);
 
-        const data: ApiSearchResponse = await response.json();
+        const data = await parseSourceResponse(response, source.format);
 
         if (data.code !== 1 && data.code !== 0) {
-            throw new Error(data.msg || 'Invalid API response');
+            throw new UpstreamCodeError(data.code, data.msg);
         }
 
-        const results: VideoItem[] = (data.list || []).map(item => ({
-            ...item,
-            source: source.id,
-        }));
+        const results: VideoItem[] = (data.list || []).map(item => {
+            const rating = getSourceRating(item);
+            return {
+                ...item,
+                source: source.id,
+                ...(rating !== undefined && { rating, ratingSource: 'source' as const }),
+            };
+        });
 
         return {
             results,
             source: source.id,
             responseTime: Date.now() - startTime,
+            page,
+            pageCount: resolvePageCount(data, page),
         };
     } catch (error) {
-        console.error(`Search failed for source ${source.name}:`, error);
-        throw {
-            code: 'SEARCH_FAILED',
-            message: `Failed to search from ${source.name}`,
-            source: source.id,
-            retryable: true,
-        };
+        if (!signal?.aborted) {
+            console.error(`Search failed for source ${source.name}:`, error);
+        }
+        throw toSourceError(error, source.id);
     }
 }
 
@@ -70,16 +102,17 @@ async function searchVideosBySource(
 export async function searchVideos(
     query: string,
     sources: VideoSource[],
-    page: number = 1
-): Promise<Array<{ results: VideoItem[]; source: string; responseTime?: number; error?: string }>> {
+    page: number = 1,
+    signal?: AbortSignal
+): Promise<SourceSearchResult[]> {
     const searchPromises = sources.map(async source => {
         try {
-            return await searchVideosBySource(query, source, page);
+            return await searchVideosBySource(query, source, page, signal);
         } catch (error) {
             return {
                 results: [],
                 source: source.id,
-                error: error instanceof Error ? error.message : 'Unknown error',
+                error: toSourceError(error, source.id),
             };
         }
     });
@@ -0,0 +1,163 @@
+/**
+ * Server-side Search Cache
+ * Caches per-source search results by normalized query and page, shared by every visitor.
+ * Backends: in-memory LRU (Node) or the Cache API (edge), with stale-while-revalidate.
+ */
+
+import type { VideoItem, VideoSource } from '@/lib/types';
+
+export interface CachedSearch {
+    results: VideoItem[];
+    pageCount?: number;
+    latency?: number; // Latency of the request that filled the entry, in ms
+}
+
+interface CacheEntry {
+    value: CachedSearch;
+    storedAt: number;
+}
+
+export type CacheStatus = 'fresh' | 'stale';
+
+export interface SearchCacheBackend {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry, maxAgeSeconds: number): Promise<void>;
+}
+
+const SEARCH_CACHE_BACKEND = process.env.SEARCH_CACHE_BACKEND || ''; // 'memory' | 'cache-api' | 'off'
+const SEARCH_CACHE_TTL = parseInt(process.env.SEARCH_CACHE_TTL || '600', 10); // seconds
+const SEARCH_CACHE_STALE = parseInt(process.env.SEARCH_CACHE_STALE || '3600', 10); // seconds served stale while revalidating
+const SEARCH_CACHE_MAX_ENTRIES = parseInt(process.env.SEARCH_CACHE_MAX_ENTRIES || '500', 10);
+
+/**
+ * In-memory LRU, relying on Map keeping insertion order
+ */
+class MemoryLruBackend implements SearchCacheBackend {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number) { }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move to the most recently used position
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Cache API backend for edge runtimes, keyed by a synthetic URL
+ */
+class CacheApiBackend implements SearchCacheBackend {
+    private cachePromise: Promise<Cache> | null = null;
+
+    private open(): Promise<Cache> {
+        if (!this.cachePromise) {
+            this.cachePromise = caches.open('kvideo-search');
+        }
+        return this.cachePromise;
+    }
+
+    private toRequest(key: string): Request {
+        return new Request(`https://search-cache.kvideo.internal/${encodeURIComponent(key)}`);
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        const response = await (await this.open()).match(this.toRequest(key));
+        return response ? await response.json() : undefined;
+    }
+
+    async set(key: string, entry: CacheEntry, maxAgeSeconds: number): Promise<void> {
+        await (await this.open()).put(this.toRequest(key), new Response(JSON.stringify(entry), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Cache-Control': `public, max-age=${maxAgeSeconds}`,
+            },
+        }));
+    }
+}
+
+function createBackend(): SearchCacheBackend | null {
+    if (SEARCH_CACHE_BACKEND === 'off' || SEARCH_CACHE_TTL <= 0) return null;
+
+    const hasCacheApi = typeof caches !== 'undefined' && typeof caches.open === 'function';
+    const useCacheApi = SEARCH_CACHE_BACKEND === 'cache-api'
+        || (SEARCH_CACHE_BACKEND !== 'memory' && process.env.NEXT_RUNTIME === 'edge' && hasCacheApi);
+
+    return useCacheApi && hasCacheApi
+        ? new CacheApiBackend()
+        : new MemoryLruBackend(SEARCH_CACHE_MAX_ENTRIES);
+}
+
+const backend = createBackend();
+
+/**
+ * Normalize a query so trivial differences (case, width, spacing) share a cache entry
+ */
+export function normalizeQuery(query: string): string {
+    return query.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * The key includes the request shape, not just the id, since custom source ids are user-defined
+ */
+function buildKey(source: VideoSource, query: string, page: number): string {
+    const shape = [source.baseUrl, source.searchPath || '', JSON.stringify(source.params || {})].join('|');
+    return `${source.id}|${shape}|${normalizeQuery(query)}|${page}`;
+}
+
+/**
+ * Look up cached results; entries past the TTL are returned as stale until the stale window ends
+ */
+export async function getCachedSearch(
+    source: VideoSource,
+    query: string,
+    page: number
+): Promise<{ value: CachedSearch; status: CacheStatus } | null> {
+    if (!backend) return null;
+
+    try {
+        const entry = await backend.get(buildKey(source, query, page));
+        if (!entry) return null;
+
+        const age = (Date.now() - entry.storedAt) / 1000;
+        if (age < SEARCH_CACHE_TTL) return { value: entry.value, status: 'fresh' };
+        if (age < SEARCH_CACHE_TTL + SEARCH_CACHE_STALE) return { value: entry.value, status: 'stale' };
+        return null;
+    } catch (error) {
+        console.warn('[Search Cache] Read failed:', error);
+        return null;
+    }
+}
+
+export async function setCachedSearch(
+    source: VideoSource,
+    query: string,
+    page: number,
+    value: CachedSearch
+): Promise<void> {
+    if (!backend) return;
+
+    try {
+        await backend.set(
+            buildKey(source, query, page),
+            { value, storedAt: Date.now() },
+            SEARCH_CACHE_TTL + SEARCH_CACHE_STALE
+        );
+    } catch (error) {
+        console.warn('[Search Cache] Write failed:', error);
+    }
+}
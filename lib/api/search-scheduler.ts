@@ -0,0 +1,138 @@
+/**
+ * Search Request Scheduler
+ * Caps concurrent upstream requests for the whole server, spaces out requests per source,
+ * and runs queued work in order of source priority, then observed latency
+ */
+
+import type { VideoSource } from '@/lib/types';
+import { SourceAbortedError, SourceHttpError } from './errors';
+import { getAverageLatency, getSourceHealthKey } from './source-health';
+
+const MAX_CONCURRENCY = Math.max(1, parseInt(process.env.SEARCH_MAX_CONCURRENCY || '8', 10) || 8);
+const SOURCE_RPS = Math.max(0, parseFloat(process.env.SEARCH_SOURCE_RPS || '2') || 0); // 0 disables the limit
+const UNKNOWN_LATENCY = 5000;
+// Back-off after a 429, when the source doesn't say how long to wait, and the most any Retry-After is honoured
+const RATE_LIMIT_BACKOFF = 2000;
+const MAX_RATE_LIMIT_BACKOFF = 60000;
+
+interface QueuedTask {
+    sourceKey: string; // See getSourceHealthKey: a made-up config never holds back the real source
+    priority: number;
+    latency: number;
+    readyAt: number; // Earliest start allowed by the source's rate limit
+    sequence: number;
+    start: () => void;
+}
+
+// Module-level state, shared by every search on this server instance
+const queue: QueuedTask[] = [];
+const nextSlotBySource = new Map<string, number>();
+let activeCount = 0;
+let sequence = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Reserve the next start time for a source so bursts are spread at SOURCE_RPS
+ */
+function reserveSlot(sourceKey: string): number {
+    const slot = Math.max(Date.now(), nextSlotBySource.get(sourceKey) || 0);
+    if (SOURCE_RPS > 0) {
+        nextSlotBySource.set(sourceKey, slot + 1000 / SOURCE_RPS);
+    }
+    return slot;
+}
+
+/**
+ * A source answered 429: hold its later requests, including queued ones, until Retry-After has passed
+ */
+function backOffSource(sourceKey: string, retryAfter: number = RATE_LIMIT_BACKOFF): void {
+    const resumeAt = Date.now() + Math.min(retryAfter, MAX_RATE_LIMIT_BACKOFF);
+    if ((nextSlotBySource.get(sourceKey) || 0) >= resumeAt) return;
+
+    nextSlotBySource.set(sourceKey, resumeAt);
+    queue
+        .filter(task => task.sourceKey === sourceKey)
+        .sort((a, b) => a.readyAt - b.readyAt)
+        .forEach(task => { task.readyAt = reserveSlot(sourceKey); });
+}
+
+function compareTasks(a: QueuedTask, b: QueuedTask): number {
+    return a.priority - b.priority || a.latency - b.latency || a.sequence - b.sequence;
+}
+
+/**
+ * Start as many ready tasks as the concurrency cap allows, and wake up when the next one is due
+ */
+function drain(): void {
+    if (wakeTimer) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+    }
+
+    while (activeCount < MAX_CONCURRENCY) {
+        const now = Date.now();
+        const ready = queue.filter(task => task.readyAt <= now).sort(compareTasks)[0];
+        if (!ready) break;
+
+        queue.splice(queue.indexOf(ready), 1);
+        activeCount++;
+        ready.start();
+    }
+
+    if (queue.length > 0 && activeCount < MAX_CONCURRENCY) {
+        const nextReadyAt = Math.min(...queue.map(task => task.readyAt));
+        wakeTimer = setTimeout(drain, Math.max(0, nextReadyAt - Date.now()));
+    }
+}
+
+/**
+ * Queue an upstream request for a source, run in order of its priority (lower first)
+ */
+export function scheduleSourceRequest<T>(
+    source: VideoSource,
+    task: () => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    const sourceKey = getSourceHealthKey(source);
+
+    return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new SourceAbortedError({ sourceId: source.id }));
+            return;
+        }
+
+        const onAbort = () => {
+            const index = queue.indexOf(queued);
+            if (index !== -1) {
+                queue.splice(index, 1);
+                reject(new SourceAbortedError({ sourceId: source.id }));
+            }
+        };
+
+        const queued: QueuedTask = {
+            sourceKey,
+            priority: source.priority ?? Number.MAX_SAFE_INTEGER,
+            latency: getAverageLatency(source) ?? UNKNOWN_LATENCY,
+            readyAt: reserveSlot(sourceKey),
+            sequence: sequence++,
+            start: () => {
+                signal?.removeEventListener('abort', onAbort);
+                task()
+                    .then(resolve, (error) => {
+                        if (error instanceof SourceHttpError && error.status === 429) {
+                            backOffSource(sourceKey, error.retryAfter);
+                        }
+                        reject(error);
+                    })
+                    .finally(() => {
+                        activeCount--;
+                        drain();
+                    });
+            },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(queued);
+        drain();
+    });
+}
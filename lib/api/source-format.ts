@@ -0,0 +1,46 @@
+/**
+ * Source Response Format
+ * Reads a source response as JSON or MacCMS XML into a single normalized shape
+ */
+
+import type { ApiSourceResponse, SourceFormat } from '@/lib/types';
+import { parseMacCmsXml } from './xml-parser';
+import { SourceParseError } from './errors';
+
+/**
+ * Detect the payload format from the Content-Type header and the body itself
+ */
+export function detectSourceFormat(text: string, contentType: string | null): 'json' | 'xml' {
+    const body = text.trimStart();
+    if (body.startsWith('{') || body.startsWith('[')) return 'json';
+    if (body.startsWith('<')) return 'xml';
+    return contentType?.includes('xml') ? 'xml' : 'json';
+}
+
+/**
+ * Parse a source response according to the configured format (auto-detect by default)
+ * Throws SourceParseError when the body is neither valid JSON nor MacCMS XML
+ */
+export async function parseSourceResponse(
+    response: Response,
+    format: SourceFormat = 'auto'
+): Promise<ApiSourceResponse> {
+    const text = await response.text();
+    const resolvedFormat = format === 'auto'
+        ? detectSourceFormat(text, response.headers.get('Content-Type'))
+        : format;
+
+    try {
+        if (resolvedFormat === 'xml') {
+            return parseMacCmsXml(text);
+        }
+
+        const data: ApiSourceResponse = JSON.parse(text);
+        return data;
+    } catch (error) {
+        throw new SourceParseError(
+            `Invalid ${resolvedFormat.toUpperCase()} response: ${error instanceof Error ? error.message : String(error)}`,
+            { cause: error }
+        );
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Source Health Registry
+ * Records success, failure and latency per source and runs a circuit breaker
+ * so dead sources stop slowing down every search
+ */
+
+import type { BreakerState, SourceHealth, VideoSource } from '@/lib/types';
+
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN = 60 * 1000;
+const MAX_COOLDOWN = 10 * 60 * 1000;
+const LATENCY_WEIGHT = 0.3;
+
+// Module-level state lives for the lifetime of the server instance, keyed by getSourceHealthKey
+const registry = new Map<string, SourceHealth>();
+const probing = new Set<string>();
+const cooldowns = new Map<string, number>();
+
+/**
+ * Health is tracked per id and API address: ids come from the client, so a known id sent
+ * with another baseUrl must not bench the real source for everyone
+ */
+export function getSourceHealthKey(source: Pick<VideoSource, 'id' | 'baseUrl'>): string {
+    return `${source.id}|${source.baseUrl}`;
+}
+
+function getEntry(key: string): SourceHealth {
+    let entry = registry.get(key);
+    if (!entry) {
+        entry = { state: 'closed', successes: 0, failures: 0, consecutiveFailures: 0, avgLatency: null };
+        registry.set(key, entry);
+    }
+    return entry;
+}
+
+/**
+ * Resolve the current breaker state, moving open breakers to half-open once the cooldown passes
+ */
+function refreshState(entry: SourceHealth): SourceHealth {
+    if (entry.state === 'open' && entry.retryAt && Date.now() >= entry.retryAt) {
+        entry.state = 'half-open';
+    }
+    return entry;
+}
+
+/**
+ * Decide whether a request may be sent to the source.
+ * Half-open breakers let a single probe through at a time.
+ */
+export function acquireSource(source: VideoSource): { allowed: boolean; state: BreakerState } {
+    const key = getSourceHealthKey(source);
+    const entry = refreshState(getEntry(key));
+
+    if (entry.state === 'closed') {
+        return { allowed: true, state: entry.state };
+    }
+
+    if (entry.state === 'half-open' && !probing.has(key)) {
+        probing.add(key);
+        return { allowed: true, state: entry.state };
+    }
+
+    return { allowed: false, state: entry.state };
+}
+
+/**
+ * Give back a half-open probe slot without recording a result (e.g. the client disconnected)
+ */
+export function releaseSource(source: VideoSource): void {
+    probing.delete(getSourceHealthKey(source));
+}
+
+export function recordSuccess(source: VideoSource, latency: number): void {
+    const key = getSourceHealthKey(source);
+    const entry = getEntry(key);
+    entry.successes++;
+    entry.consecutiveFailures = 0;
+    entry.avgLatency = entry.avgLatency === null
+        ? latency
+        : Math.round(entry.avgLatency * (1 - LATENCY_WEIGHT) + latency * LATENCY_WEIGHT);
+    entry.state = 'closed';
+    entry.openedAt = undefined;
+    entry.retryAt = undefined;
+    entry.lastError = undefined;
+    probing.delete(key);
+    cooldowns.delete(key);
+}
+
+export function recordFailure(source: VideoSource, error?: string): void {
+    const key = getSourceHealthKey(source);
+    const entry = refreshState(getEntry(key));
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.lastError = error;
+
+    const failedProbe = entry.state === 'half-open';
+    probing.delete(key);
+
+    if (failedProbe || entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+        // Each failed probe doubles the cooldown, up to the cap
+        const cooldown = failedProbe
+            ? Math.min((cooldowns.get(key) || BASE_COOLDOWN) * 2, MAX_COOLDOWN)
+            : BASE_COOLDOWN;
+        cooldowns.set(key, cooldown);
+        entry.state = 'open';
+        entry.openedAt = Date.now();
+        entry.retryAt = entry.openedAt + cooldown;
+    }
+}
+
+/**
+ * Moving average latency of successful requests, if the source has any
+ */
+export function getAverageLatency(source: VideoSource): number | null {
+    return registry.get(getSourceHealthKey(source))?.avgLatency ?? null;
+}
+
+/**
+ * Snapshot of every tracked source, keyed by getSourceHealthKey
+ */
+export function getHealthSnapshot(): Record<string, SourceHealth> {
+    const snapshot: Record<string, SourceHealth> = {};
+    registry.forEach((entry, key) => {
+        snapshot[key] = { ...refreshState(entry) };
+    });
+    return snapshot;
+}
@@ -0,0 +1,168 @@
+/**
+ * Source Validation
+ * Runs a candidate source through search, parse, detail and playback checks
+ */
+
+import type { VideoSource, SourceTestReport, SourceTestStep, ApiSourceResponse } from '@/lib/types';
+import { fetchWithTimeout } from './http-utils';
+import { parseSourceResponse } from './source-format';
+import { getVideoDetail } from './detail-api';
+import { buildSearchUrl } from './source-url';
+import { SourceError, SourceTimeoutError } from './errors';
+import { checkProxyTarget, loadSubscriptionHosts, ProxyPolicyError } from './proxy-policy';
+import { fetchFollowingRedirects } from '@/lib/utils/fetch-with-retry';
+import { buildSignedProxyUrl } from './proxy-signing';
+import { encodeProxyContext } from './proxy-context';
+import { sealPlaybackProfile } from './playback-profiles';
+
+const TEST_TIMEOUT = 10000;
+const DEFAULT_PROBE_QUERY = '我';
+
+const skipped = (message: string): SourceTestStep => ({ status: 'skipped', message });
+
+function errorMessage(error: unknown): string {
+    if (error instanceof SourceTimeoutError) return '请求超时';
+    return error instanceof Error ? error.message : '未知错误';
+}
+
+/**
+ * Fetch a URL that came from the client or a source under the proxy policy, so the test
+ * can't be pointed at internal addresses, directly or through a redirect
+ */
+async function fetchChecked(url: string, init: RequestInit = {}): Promise<Response> {
+    try {
+        return await fetchFollowingRedirects(
+            checkProxyTarget(url).toString(),
+            init,
+            (hopUrl, hopInit) => fetchWithTimeout(hopUrl, hopInit, TEST_TIMEOUT)
+        );
+    } catch (error) {
+        // A rejected host won't pass on retry
+        if (error instanceof ProxyPolicyError) {
+            throw new SourceError('UNKNOWN', error.message, false, { cause: error });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Check that a playback URL answers, and that m3u8 URLs really return a playlist
+ * @param fetcher - fetchChecked for upstream URLs; this deployment's proxy applies the policy itself
+ */
+async function probePlayback(
+    url: string,
+    fetcher: (url: string, init: RequestInit) => Promise<Response> = fetchChecked
+): Promise<void> {
+    const response = await fetcher(url, { method: 'GET' });
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+
+    if (url.includes('.m3u8')) {
+        const text = (await response.text()).trim();
+        if (!text.startsWith('#EXTM3U') && !text.startsWith('#EXT-X-')) {
+            throw new Error('返回内容不是 m3u8 播放列表');
+        }
+    } else {
+        await response.body?.cancel();
+    }
+}
+
+/**
+ * Validate a source end to end
+ * @param proxyOrigin - Origin of this deployment, used to retry playback through /api/proxy
+ */
+export async function testSource(
+    source: VideoSource,
+    proxyOrigin: string,
+    query: string = DEFAULT_PROBE_QUERY
+): Promise<SourceTestReport> {
+    const report: SourceTestReport = {
+        ok: false,
+        search: skipped('未执行'),
+        parse: skipped('未执行'),
+        detail: skipped('未执行'),
+        playback: skipped('未执行'),
+    };
+
+    // 1. Probe search
+    const url = buildSearchUrl(source, query);
+    await loadSubscriptionHosts();
+
+    let response: Response;
+    let startTime = Date.now();
+    try {
+        response = await fetchChecked(url.toString(), {
+            headers: { 'User-Agent': 'Mozilla/5.0', ...source.headers },
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        report.search = { status: 'ok', message: `HTTP ${response.status}`, latency: Date.now() - startTime };
+    } catch (error) {
+        report.search = { status: 'failed', message: errorMessage(error), latency: Date.now() - startTime };
+        return report;
+    }
+
+    // 2. Parse the response
+    let data: ApiSourceResponse;
+    try {
+        data = await parseSourceResponse(response, source.format);
+        if (data.code !== 1 && data.code !== 0) {
+            throw new Error(data.msg || `接口返回错误码 ${data.code}`);
+        }
+        report.parse = { status: 'ok', message: `解析成功，找到 ${data.list?.length || 0} 个结果` };
+    } catch (error) {
+        report.parse = { status: 'failed', message: errorMessage(error) };
+        return report;
+    }
+
+    // 3. Fetch detail of the first result
+    const first = data.list?.[0];
+    if (!first) {
+        report.detail = skipped('搜索无结果，无法检测详情');
+        report.playback = skipped('搜索无结果，无法检测播放');
+        return report;
+    }
+
+    let episodeUrl: string | undefined;
+    startTime = Date.now();
+    try {
+        const detail = await getVideoDetail(first.vod_id, source, fetchChecked);
+        if (detail.episodes.length === 0) {
+            throw new Error('详情中没有剧集');
+        }
+        episodeUrl = detail.episodes[0].url;
+        report.detail = {
+            status: 'ok',
+            message: `「${detail.vod_name}」共 ${detail.episodes.length} 集，${detail.lines.length} 条线路`,
+            latency: Date.now() - startTime,
+        };
+    } catch (error) {
+        report.detail = { status: 'failed', message: errorMessage(error), latency: Date.now() - startTime };
+        return report;
+    }
+    report.ok = true;
+
+    // 4. First episode reachable directly, or else through the proxy
+    startTime = Date.now();
+    try {
+        await probePlayback(episodeUrl);
+        report.playback = { status: 'ok', message: '可直接播放', latency: Date.now() - startTime, via: 'direct' };
+        return report;
+    } catch {
+        // Fall through to the proxy
+    }
+
+    try {
+        // The config under test came from the client, so it never borrows a server source's profile by id
+        const context = encodeProxyContext({ sealedProfile: await sealPlaybackProfile(source.playback) });
+        const proxyUrl = await buildSignedProxyUrl(proxyOrigin, episodeUrl, context);
+        await probePlayback(proxyUrl, (target, init) => fetchWithTimeout(target, init, TEST_TIMEOUT));
+        report.playback = { status: 'ok', message: '需通过代理播放', latency: Date.now() - startTime, via: 'proxy' };
+    } catch (error) {
+        report.playback = { status: 'failed', message: errorMessage(error), latency: Date.now() - startTime };
+    }
+
+    return report;
+}
@@ -0,0 +1,72 @@
+/**
+ * Source URL Builder
+ * Builds request URLs from a source's paths and parameter mapping
+ */
+
+import type { VideoSource, SourceParams } from '@/lib/types';
+
+export const DEFAULT_SOURCE_PARAMS: Required<SourceParams> = {
+    action: 'ac',
+    searchAction: 'detail',
+    detailAction: 'detail',
+    listAction: 'list',
+    search: 'wd',
+    detail: 'ids',
+    category: 't',
+    page: 'pg',
+};
+
+/**
+ * Resolve the parameter mapping of a source, ignoring blank overrides
+ */
+export function getSourceParams(source: VideoSource): Required<SourceParams> {
+    const params = { ...DEFAULT_SOURCE_PARAMS };
+    Object.entries(source.params || {}).forEach(([key, value]) => {
+        if (typeof value === 'string' && value.trim()) {
+            params[key as keyof SourceParams] = value.trim();
+        }
+    });
+    return params;
+}
+
+function createUrl(source: VideoSource, path: string | undefined, action: string): URL {
+    const params = getSourceParams(source);
+    const url = new URL(`${source.baseUrl}${path || ''}`);
+    url.searchParams.set(params.action, action);
+    return url;
+}
+
+export function buildSearchUrl(source: VideoSource, query: string, page: number = 1): URL {
+    const params = getSourceParams(source);
+    const url = createUrl(source, source.searchPath, params.searchAction);
+    url.searchParams.set(params.search, query);
+    url.searchParams.set(params.page, page.toString());
+    return url;
+}
+
+export function buildDetailUrl(source: VideoSource, id: string | number): URL {
+    const params = getSourceParams(source);
+    const url = createUrl(source, source.detailPath, params.detailAction);
+    url.searchParams.set(params.detail, id.toString());
+    return url;
+}
+
+/**
+ * URL of the category list (type_id / type_name pairs)
+ */
+export function buildListUrl(source: VideoSource): URL {
+    return createUrl(source, source.searchPath, getSourceParams(source).listAction);
+}
+
+/**
+ * URL of the latest videos, optionally within one category
+ */
+export function buildCategoryUrl(source: VideoSource, page: number = 1, category?: string): URL {
+    const params = getSourceParams(source);
+    const url = createUrl(source, source.searchPath, params.searchAction);
+    url.searchParams.set(params.page, page.toString());
+    if (category) {
+        url.searchParams.set(params.category, category);
+    }
+    return url;
+}
@@ -0,0 +1,85 @@
+/**
+ * Server Subscription Sources
+ * The source lists the operator configures in SUBSCRIPTION_SOURCES, fetched by the server
+ * itself, so their hosts and configs can be trusted without taking source configs from clients
+ */
+
+import type { VideoSource } from '@/lib/types';
+import { parseSourcesFromJson, parseSubscriptionList } from '@/lib/utils/source-import-utils';
+import { fetchWithTimeout } from './http-utils';
+import { getSourceById } from './video-sources';
+
+const SUBSCRIPTION_SOURCES = process.env.SUBSCRIPTION_SOURCES || process.env.NEXT_PUBLIC_SUBSCRIPTION_SOURCES || '';
+const LIST_TTL = 60 * 60 * 1000; // 1 hour
+const LIST_RETRY_TTL = 5 * 60 * 1000; // after a list failed to load
+const LIST_TIMEOUT = 10000;
+
+interface SubscriptionSources {
+    listUrls: string[];
+    sources: VideoSource[];
+}
+
+let cached: SubscriptionSources & { expiresAt: number } | null = null;
+let loadingPromise: Promise<SubscriptionSources> | null = null;
+
+/**
+ * @returns The list's sources, or null when the list couldn't be loaded
+ */
+async function loadListSources(listUrl: string): Promise<VideoSource[] | null> {
+    try {
+        const response = await fetchWithTimeout(listUrl, { headers: { 'Accept': 'application/json' } }, LIST_TIMEOUT);
+        if (!response.ok) {
+            await response.body?.cancel();
+            return null;
+        }
+        const { normalSources, premiumSources } = parseSourcesFromJson(await response.text());
+        return [...normalSources, ...premiumSources];
+    } catch (error) {
+        console.warn(`[Subscription Sources] Failed to load ${listUrl}:`, error);
+        return null;
+    }
+}
+
+async function loadSubscriptionSources(): Promise<SubscriptionSources & { complete: boolean }> {
+    const listUrls = parseSubscriptionList(SUBSCRIPTION_SOURCES).map(list => list.url);
+    const results = await Promise.all(listUrls.map(loadListSources));
+    return {
+        listUrls,
+        sources: results.flatMap(sources => sources || []),
+        complete: results.every(sources => sources !== null),
+    };
+}
+
+/**
+ * The subscription lists and their sources, refreshed hourly
+ */
+async function getSubscriptionSources(): Promise<SubscriptionSources> {
+    if (!SUBSCRIPTION_SOURCES) return { listUrls: [], sources: [] };
+    if (cached && Date.now() < cached.expiresAt) return cached;
+
+    if (!loadingPromise) {
+        loadingPromise = loadSubscriptionSources()
+            .then(({ listUrls, sources, complete }) => {
+                cached = { listUrls, sources, expiresAt: Date.now() + (complete ? LIST_TTL : LIST_RETRY_TTL) };
+                return cached;
+            })
+            .finally(() => { loadingPromise = null; });
+    }
+    return loadingPromise;
+}
+
+/**
+ * URLs of the subscription lists and of the source APIs they contain
+ */
+export async function getSubscriptionSourceUrls(): Promise<string[]> {
+    const { listUrls, sources } = await getSubscriptionSources();
+    return [...listUrls, ...sources.map(source => source.baseUrl)];
+}
+
+/**
+ * A source the server configures itself, built in or from its subscription lists,
+ * so its config never has to be taken from the client
+ */
+export async function getServerSource(id: string): Promise<VideoSource | undefined> {
+    return getSourceById(id) || (await getSubscriptionSources()).sources.find(source => source.id === id);
+}
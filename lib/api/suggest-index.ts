@@ -0,0 +1,116 @@
+/**
+ * Search Suggestions
+ * Title completions from titles recently returned by sources on this server instance,
+ * and Douban hot titles and tags
+ */
+
+import type { SearchSuggestion } from '@/lib/types';
+import { parseVideoTitle } from '@/lib/utils/video';
+import { normalizeChinese } from '@/lib/utils/chinese-text';
+import { rankSuggestions } from '@/lib/utils/suggestion-rank';
+import { fetchWithTimeout } from './http-utils';
+
+const MAX_RECENT_TITLES = 2000;
+const HOT_TITLES_TTL = 60 * 60 * 1000; // 1 hour
+const HOT_TITLES_RETRY_TTL = 60 * 1000; // after a failed load, retry Douban a minute later
+const DOUBAN_TIMEOUT = 3000; // suggestions wait on this, so Douban gets little time
+const DOUBAN_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+    'Referer': 'https://movie.douban.com/',
+};
+
+interface RecentTitle {
+    title: string;
+    hits: number;
+}
+
+// Keyed by normalized title, kept in least-recently-seen order
+const recentTitles = new Map<string, RecentTitle>();
+let hotTitles: { titles: string[]; expiresAt: number } | null = null;
+let hotTitlesPromise: Promise<string[]> | null = null;
+
+/**
+ * Remember titles that sources returned, so later prefixes can complete to them
+ */
+export function recordResultTitles(titles: string[]): void {
+    titles.forEach(rawTitle => {
+        const title = parseVideoTitle(rawTitle).cleanTitle.trim();
+        if (!title) return;
+
+        const key = normalizeChinese(title);
+        const existing = recentTitles.get(key);
+        recentTitles.delete(key);
+        recentTitles.set(key, { title, hits: (existing?.hits || 0) + 1 });
+    });
+
+    while (recentTitles.size > MAX_RECENT_TITLES) {
+        const oldest = recentTitles.keys().next().value;
+        if (oldest === undefined) break;
+        recentTitles.delete(oldest);
+    }
+}
+
+async function fetchDoubanJson<T>(url: string): Promise<T | null> {
+    try {
+        const response = await fetchWithTimeout(url, { headers: DOUBAN_HEADERS }, DOUBAN_TIMEOUT);
+        return response.ok ? await response.json() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * @returns The titles, and whether every Douban request answered
+ */
+async function loadHotTitles(): Promise<{ titles: string[]; complete: boolean }> {
+    const types = ['movie', 'tv'];
+    const [subjects, tags] = await Promise.all([
+        Promise.all(types.map(type => fetchDoubanJson<{ subjects?: Array<{ title: string }> }>(
+            `https://movie.douban.com/j/search_subjects?type=${type}&tag=${encodeURIComponent('热门')}&sort=recommend&page_limit=50&page_start=0`
+        ))),
+        Promise.all(types.map(type => fetchDoubanJson<{ tags?: string[] }>(
+            `https://movie.douban.com/j/search_tags?type=${type}&source=index`
+        ))),
+    ]);
+
+    const titles = [
+        ...subjects.flatMap(data => data?.subjects?.map(subject => subject.title) || []),
+        ...tags.flatMap(data => data?.tags || []),
+    ];
+    return {
+        titles: Array.from(new Set(titles.filter(Boolean))),
+        complete: [...subjects, ...tags].every(data => data !== null),
+    };
+}
+
+/**
+ * Douban hot titles and tags, refreshed hourly; an empty or partial list when Douban is
+ * unreachable, kept only briefly so the next requests try again
+ */
+async function getHotTitles(): Promise<string[]> {
+    if (hotTitles && Date.now() < hotTitles.expiresAt) {
+        return hotTitles.titles;
+    }
+    if (!hotTitlesPromise) {
+        hotTitlesPromise = loadHotTitles()
+            .then(({ titles, complete }) => {
+                hotTitles = { titles, expiresAt: Date.now() + (complete ? HOT_TITLES_TTL : HOT_TITLES_RETRY_TTL) };
+                return titles;
+            })
+            .finally(() => { hotTitlesPromise = null; });
+    }
+    return hotTitlesPromise;
+}
+
+/**
+ * Merge completions for a prefix from this server's sources, best matches first.
+ * The user's history is ranked in with these by the browser and never sent here.
+ */
+export async function getSuggestions(prefix: string, limit: number = 10): Promise<SearchSuggestion[]> {
+    if (!normalizeChinese(prefix)) return [];
+
+    return rankSuggestions(prefix, [
+        ...Array.from(recentTitles.values()).map(({ title, hits }) => ({ text: title, source: 'recent' as const, hits })),
+        ...(await getHotTitles()).map(text => ({ text, source: 'douban' as const, hits: 0 })),
+    ], limit);
+}
@@ -0,0 +1,105 @@
+/**
+ * MacCMS XML Parser
+ * Converts the legacy XML API (<rss><list><video>…) into the JSON response shape
+ * Regex based so it runs on the edge runtime, where DOMParser is unavailable
+ */
+
+import type { ApiSourceResponse } from '@/lib/types';
+
+type ApiVideoRecord = ApiSourceResponse['list'][number];
+
+const ENTITIES: Record<string, string> = {
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&apos;': "'",
+    '&amp;': '&',
+};
+
+/**
+ * Character of a numeric entity; out-of-range references are left as written
+ */
+function decodeCodePoint(entity: string, codePoint: number): string {
+    return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&#(\d+);/g, (entity, code) => decodeCodePoint(entity, parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (entity, code) => decodeCodePoint(entity, parseInt(code, 16)))
+        .replace(/&(lt|gt|quot|apos|amp);/g, entity => ENTITIES[entity]);
+}
+
+/**
+ * Unwrap CDATA sections, decoding entities only outside of them
+ */
+function readText(raw: string): string {
+    const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+    return (cdata ? cdata[1] : decodeEntities(raw)).trim();
+}
+
+function readTag(block: string, tag: string): string | undefined {
+    const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+    return match ? readText(match[1]) : undefined;
+}
+
+function readAttr(openTag: string, attr: string): string | undefined {
+    const match = openTag.match(new RegExp(`\\s${attr}="([^"]*)"`));
+    return match ? decodeEntities(match[1]) : undefined;
+}
+
+function readNumberAttr(openTag: string, attr: string): number | undefined {
+    const value = parseInt(readAttr(openTag, attr) || '', 10);
+    return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Parse a single <video> block, joining <dl><dd flag="…"> play lines with $$$
+ */
+function parseVideo(block: string): ApiVideoRecord {
+    const flags: string[] = [];
+    const urls: string[] = [];
+
+    for (const dd of block.matchAll(/<dd(\s[^>]*)?>([\s\S]*?)<\/dd>/g)) {
+        flags.push(readAttr(dd[1] || '', 'flag') || '');
+        urls.push(readText(dd[2]));
+    }
+
+    return {
+        vod_id: readTag(block, 'id') || '',
+        vod_name: readTag(block, 'name') || '',
+        vod_pic: readTag(block, 'pic') || '',
+        vod_remarks: readTag(block, 'note'),
+        vod_year: readTag(block, 'year'),
+        vod_area: readTag(block, 'area'),
+        vod_actor: readTag(block, 'actor'),
+        vod_director: readTag(block, 'director'),
+        vod_content: readTag(block, 'des'),
+        type_name: readTag(block, 'type'),
+        vod_play_from: flags.join('$$$'),
+        vod_play_url: urls.join('$$$'),
+    };
+}
+
+/**
+ * Parse a MacCMS XML list/detail response
+ */
+export function parseMacCmsXml(xml: string): ApiSourceResponse {
+    const listMatch = xml.match(/<list(\s[^>]*)?>([\s\S]*?)<\/list>|<list(\s[^>]*)?\/>/);
+    if (!listMatch) {
+        throw new Error('Invalid XML response');
+    }
+
+    const listAttrs = listMatch[1] || listMatch[3] || '';
+    const listBody = listMatch[2] || '';
+    const videos = [...listBody.matchAll(/<video>([\s\S]*?)<\/video>/g)].map(match => parseVideo(match[1]));
+
+    return {
+        code: 1,
+        page: readNumberAttr(listAttrs, 'page'),
+        pagecount: readNumberAttr(listAttrs, 'pagecount'),
+        limit: readNumberAttr(listAttrs, 'pagesize'),
+        total: readNumberAttr(listAttrs, 'recordcount'),
+        list: videos.filter(video => video.vod_name),
+    };
+}
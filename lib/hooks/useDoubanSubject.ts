@@ -0,0 +1,46 @@
+/**
+ * useDoubanSubject Hook
+ * Loads Douban metadata for a title from /api/douban/subject,
+ * by the remembered subject id when there is one
+ */
+
+import { useState, useEffect } from 'react';
+import type { DoubanSubject } from '@/lib/types';
+import { getRememberedDoubanSubjectId } from '@/lib/utils/douban-subject-hints';
+
+interface SubjectState {
+  requestKey: string;
+  subject: DoubanSubject | null;
+}
+
+export function useDoubanSubject(title?: string | null, year?: string) {
+  const [state, setState] = useState<SubjectState>({ requestKey: '', subject: null });
+
+  const trimmedTitle = title?.trim() || '';
+  const requestKey = trimmedTitle ? `${trimmedTitle}|${year || ''}` : '';
+
+  useEffect(() => {
+    if (!trimmedTitle) return;
+
+    const controller = new AbortController();
+    const id = getRememberedDoubanSubjectId(trimmedTitle);
+    const params = id
+      ? new URLSearchParams({ id })
+      : new URLSearchParams({ title: trimmedTitle, ...(year && { year }) });
+
+    fetch(`/api/douban/subject?${params.toString()}`, { signal: controller.signal })
+      .then(response => response.ok ? response.json() : { subject: null })
+      .then(data => setState({ requestKey, subject: data.subject || null }))
+      .catch(() => {
+        if (!controller.signal.aborted) setState({ requestKey, subject: null });
+      });
+
+    return () => controller.abort();
+  }, [trimmedTitle, year, requestKey]);
+
+  const isCurrent = requestKey !== '' && state.requestKey === requestKey;
+  return {
+    subject: isCurrent ? state.subject : null,
+    loading: requestKey !== '' && !isCurrent,
+  };
+}
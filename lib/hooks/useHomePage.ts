@@ -4,6 +4,7 @@ import { useSearchCache } from '@/lib/hooks/useSearchCache';
 import { useParallelSearch } from '@/lib/hooks/useParallelSearch';
 import { useSubscriptionSync } from '@/lib/hooks/useSubscriptionSync';
 import { settingsStore } from '@/lib/store/settings-store';
+import { rememberDoubanSubjectId } from '@/lib/utils/douban-subject-hints';
 
 export function useHomePage() {
     useSubscriptionSync();
@@ -27,7 +28,12 @@ export function useHomePage() {
         availableSources,
         completedSources,
         totalSources,
+        failedSources,
+        currentPage,
+        hasMore,
+        loadingMore,
         performSearch,
+        loadMore,
         resetSearch,
         loadCachedResults,
         applySorting,
@@ -84,6 +90,12 @@ export function useHomePage() {
         const urlQuery = searchParams.get('q');
         const cached = loadFromCache();
 
+        // Opened from a Douban card in a new tab
+        const doubanId = searchParams.get('douban');
+        if (urlQuery && doubanId) {
+            rememberDoubanSubjectId(urlQuery, doubanId);
+        }
+
         if (urlQuery) {
             setQuery(urlQuery);
             if (cached && cached.query === urlQuery && cached.results.length > 0) {
@@ -128,6 +140,11 @@ export function useHomePage() {
         availableSources,
         completedSources,
         totalSources,
+        failedSources,
+        currentPage,
+        hasMore,
+        loadingMore,
+        loadMore,
         handleSearch,
         handleReset,
     };
@@ -3,7 +3,7 @@
 import { useCallback } from 'react';
 import { sortVideos } from '@/lib/utils/sort';
 import type { SortOption } from '@/lib/store/settings-store';
-import type { Video, SourceBadge } from '@/lib/types';
+import type { Video, SourceBadge, SourceFailure } from '@/lib/types';
 import { useSearchState } from './useSearchState';
 import { useSearchAction } from './useSearchAction';
 
@@ -14,7 +14,12 @@ interface ParallelSearchResult {
   completedSources: number;
   totalSources: number;
   totalVideosFound: number;
+  failedSources: SourceFailure[];
+  currentPage: number;
+  hasMore: boolean;
+  loadingMore: boolean;
   performSearch: (query: string, sources?: any[], sortBy?: SortOption) => Promise<void>;
+  loadMore: (nextPage: number) => Promise<void>;
   resetSearch: () => void;
   loadCachedResults: (results: Video[], sources: any[]) => void;
   applySorting: (sortBy: SortOption) => void;
@@ -32,13 +37,17 @@ export function useParallelSearch(
     completedSources,
     totalSources,
     totalVideosFound,
+    failedSources,
+    currentPage,
+    hasMore,
+    loadingMore,
     setResults,
     setAvailableSources,
     setTotalVideosFound,
     resetState,
   } = state;
 
-  const { performSearch, cancelSearch } = useSearchAction({
+  const { performSearch, loadMore, cancelSearch } = useSearchAction({
     state,
     onCacheUpdate,
     onUrlUpdate,
@@ -75,7 +84,12 @@ export function useParallelSearch(
     completedSources,
     totalSources,
     totalVideosFound,
+    failedSources,
+    currentPage,
+    hasMore,
+    loadingMore,
     performSearch,
+    loadMore,
     resetSearch,
     loadCachedResults,
     applySorting,
@@ -31,7 +31,12 @@ export function usePremiumHomePage() {
         availableSources,
         completedSources,
         totalSources,
+        failedSources,
+        currentPage,
+        hasMore,
+        loadingMore,
         performSearch,
+        loadMore,
         resetSearch,
         loadCachedResults,
         applySorting,
@@ -87,6 +92,11 @@ export function usePremiumHomePage() {
         availableSources,
         completedSources,
         totalSources,
+        failedSources,
+        currentPage,
+        hasMore,
+        loadingMore,
+        loadMore,
         handleSearch,
         handleReset,
     };
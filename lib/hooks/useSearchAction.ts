@@ -1,14 +1,17 @@
 import { useRef, useCallback } from 'react';
 import { SOURCE_IDS } from '@/lib/utils/source-names';
 import { sortVideos } from '@/lib/utils/sort';
-import { binaryInsertVideos } from '@/lib/utils/sorted-insert';
+import { fetchDoubanRatings, applyDoubanRatings } from '@/lib/utils/rating';
+import { binaryInsertVideos, mergeUniqueVideos } from '@/lib/utils/sorted-insert';
 import { processSearchStream } from '@/lib/utils/search-stream';
+import { parseSearchQuery } from '@/lib/utils/search-query';
 import type { SortOption } from '@/lib/store/settings-store';
 import { settingsStore } from '@/lib/store/settings-store';
-import type { Video } from '@/lib/types';
+import type { Video, VideoSource } from '@/lib/types';
 import { useSearchState } from './useSearchState';
 
 type SearchState = ReturnType<typeof useSearchState>;
+type SearchSource = Pick<VideoSource, 'id'>;
 
 interface UseSearchActionProps {
     state: SearchState;
@@ -24,13 +27,85 @@ export function useSearchAction({ state, onCacheUpdate, onUrlUpdate }: UseSearch
         setCompletedSources,
         setTotalSources,
         setTotalVideosFound,
+        setFailedSources,
+        setCurrentPage,
+        setHasMore,
+        setLoadingMore,
+        pageCountsRef,
         startSearch,
     } = state;
 
     const abortControllerRef = useRef<AbortController | null>(null);
+    // Query, sources and sort of the last search, reused when loading further pages
+    const lastSearchRef = useRef<{ query: string; sources: SearchSource[]; sortBy: SortOption } | null>(null);
+    const sourceStatsRef = useRef<Map<string, { count: number; name: string }>>(new Map());
+    const loadingMoreRef = useRef(false);
+
+    const fetchSearchStream = useCallback(async (query: string, sources: SearchSource[], page: number, signal: AbortSignal) => {
+        const response = await fetch('/api/search-parallel', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ query, sources, page }),
+            signal,
+        });
+
+        if (!response.ok) throw new Error('Search failed');
+
+        const reader = response.body?.getReader();
+        if (!reader) throw new Error('No response stream');
+        return reader;
+    }, []);
+
+    const recordSourceVideos = useCallback((sourceId: string, newVideos: Video[]) => {
+        const stats = sourceStatsRef.current.get(sourceId);
+        if (stats) {
+            stats.count += newVideos.length;
+        } else {
+            sourceStatsRef.current.set(sourceId, {
+                count: newVideos.length,
+                name: newVideos[0]?.sourceName || sourceId,
+            });
+        }
+    }, []);
+
+    /**
+     * Publish source badges, apply final sorting and cache the results
+     */
+    const finalizeResults = useCallback((query: string, sortBy: SortOption) => {
+        // Update available sources with correct property names
+        const sources = Array.from(sourceStatsRef.current.entries()).map(([id, info]) => ({
+            id: id,
+            name: info.name,
+            count: info.count,
+        }));
+        setAvailableSources(sources);
+
+        setResults((currentResults) => {
+            const sorted = sortVideos(currentResults, sortBy);
+
+            // Cache results
+            setTimeout(() => {
+                onCacheUpdate(query, sorted, sources);
+            }, 100);
+
+            return sorted;
+        });
+
+        // Optionally fill ratings the sources left out, then re-sort with them
+        if (settingsStore.getSettings().ratingEnrichment) {
+            fetchDoubanRatings()
+                .then(ratings => setResults((currentResults) => {
+                    const enriched = applyDoubanRatings(currentResults, ratings);
+                    return enriched === currentResults ? currentResults : sortVideos(enriched, sortBy);
+                }))
+                .catch(error => console.warn('Rating enrichment failed:', error));
+        }
+    }, [onCacheUpdate, setAvailableSources, setResults]);
 
     const performSearch = useCallback(async (searchQuery: string, sources: any[] = [], sortBy: SortOption = 'default') => {
-        if (!searchQuery.trim()) return;
+        // Filters like year: or -term need some free text to search for
+        const { text: searchText } = parseSearchQuery(searchQuery);
+        if (!searchText) return;
 
         // Resolve sources if not provided
         let targetSources = sources;
@@ -50,6 +125,9 @@ export function useSearchAction({ state, onCacheUpdate, onUrlUpdate }: UseSearch
             abortControllerRef.current.abort();
         }
         abortControllerRef.current = new AbortController();
+        lastSearchRef.current = { query: searchQuery.trim(), sources: targetSources, sortBy };
+        sourceStatsRef.current = new Map();
+        loadingMoreRef.current = false;
 
         // Reset state
         startSearch(searchQuery.trim());
@@ -58,62 +136,37 @@ export function useSearchAction({ state, onCacheUpdate, onUrlUpdate }: UseSearch
         onUrlUpdate(searchQuery);
 
         try {
-            const response = await fetch('/api/search-parallel', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ query: searchQuery, sources: targetSources }),
-                signal: abortControllerRef.current.signal,
-            });
-
-            if (!response.ok) throw new Error('Search failed');
-
-            const reader = response.body?.getReader();
-            if (!reader) throw new Error('No response stream');
-
-            const sourcesMap = new Map<string, { count: number; name: string }>();
+            const reader = await fetchSearchStream(searchQuery, targetSources, 1, abortControllerRef.current.signal);
 
             await processSearchStream({
                 reader,
-                currentQuery: searchQuery.trim(),
+                currentQuery: searchText,
                 onStart: (total) => setTotalSources(total),
                 onVideos: (newVideos, sourceId) => {
                     // Optimized: Insert new videos in sorted position
                     setResults((prev) => binaryInsertVideos(prev, newVideos));
 
                     // Update source stats
-                    if (!sourcesMap.has(sourceId)) {
-                        sourcesMap.set(sourceId, {
-                            count: newVideos.length,
-                            name: newVideos[0]?.sourceName || sourceId,
-                        });
+                    if (!sourceStatsRef.current.has(sourceId)) {
+                        recordSourceVideos(sourceId, newVideos);
                     }
                 },
                 onProgress: (completed, found) => {
                     setCompletedSources(completed);
                     setTotalVideosFound(found);
                 },
+                onPageCount: (sourceId, pageCount) => {
+                    pageCountsRef.current.set(sourceId, pageCount);
+                },
+                onSourceError: (failure) => {
+                    setFailedSources((prev) => [...prev, failure]);
+                },
                 onComplete: () => {
                     setLoading(false);
-
-                    // Update available sources with correct property names
-                    const sources = Array.from(sourcesMap.entries()).map(([id, info]) => ({
-                        id: id,
-                        name: info.name,
-                        count: info.count,
-                    }));
-                    setAvailableSources(sources);
+                    setHasMore(Array.from(pageCountsRef.current.values()).some(count => count > 1));
 
                     // Apply final sorting after all results are received
-                    setResults((currentResults) => {
-                        const sorted = sortVideos(currentResults, sortBy);
-
-                        // Cache results
-                        setTimeout(() => {
-                            onCacheUpdate(searchQuery, sorted, sources);
-                        }, 100);
-
-                        return sorted;
-                    });
+                    finalizeResults(searchQuery, sortBy);
                 },
                 onError: (message) => {
                     console.error('Search error:', message);
@@ -131,7 +184,74 @@ export function useSearchAction({ state, onCacheUpdate, onUrlUpdate }: UseSearch
             }
             setLoading(false);
         }
-    }, [startSearch, onUrlUpdate, onCacheUpdate, setTotalSources, setResults, setCompletedSources, setTotalVideosFound, setLoading, setAvailableSources]);
+    }, [startSearch, onUrlUpdate, fetchSearchStream, recordSourceVideos, finalizeResults, pageCountsRef, setTotalSources, setResults, setCompletedSources, setTotalVideosFound, setLoading, setHasMore, setFailedSources]);
+
+    /**
+     * Load the next page, only from sources that still have pages left
+     */
+    const loadMore = useCallback(async (nextPage: number) => {
+        const lastSearch = lastSearchRef.current;
+        const signal = abortControllerRef.current?.signal;
+        if (!lastSearch || !signal || loadingMoreRef.current) return;
+
+        const remainingSources = lastSearch.sources.filter(
+            source => (pageCountsRef.current.get(source.id) || 0) >= nextPage
+        );
+        if (remainingSources.length === 0) {
+            setHasMore(false);
+            return;
+        }
+
+        loadingMoreRef.current = true;
+        setLoadingMore(true);
+        // Sources that fail or come back empty are treated as exhausted
+        remainingSources.forEach(source => pageCountsRef.current.set(source.id, nextPage));
+
+        const finish = () => {
+            loadingMoreRef.current = false;
+            setLoadingMore(false);
+        };
+
+        try {
+            const reader = await fetchSearchStream(lastSearch.query, remainingSources, nextPage, signal);
+
+            await processSearchStream({
+                reader,
+                currentQuery: parseSearchQuery(lastSearch.query).text,
+                onStart: () => { },
+                onVideos: (newVideos, sourceId) => {
+                    setResults((prev) => mergeUniqueVideos(prev, newVideos));
+                    recordSourceVideos(sourceId, newVideos);
+                },
+                onProgress: () => { },
+                onPageCount: (sourceId, pageCount) => {
+                    pageCountsRef.current.set(sourceId, pageCount);
+                },
+                onSourceError: (failure) => {
+                    setFailedSources((prev) => [
+                        ...prev.filter(item => item.source !== failure.source),
+                        failure,
+                    ]);
+                },
+                onComplete: () => {
+                    setCurrentPage(nextPage);
+                    setHasMore(Array.from(pageCountsRef.current.values()).some(count => count > nextPage));
+                    finalizeResults(lastSearch.query, lastSearch.sortBy);
+                    finish();
+                },
+                onError: (message) => {
+                    console.error('Load more error:', message);
+                    finish();
+                },
+            });
+            finish();
+        } catch (error) {
+            if (!(error instanceof Error && error.name === 'AbortError')) {
+                console.error('Load more error:', error);
+            }
+            finish();
+        }
+    }, [fetchSearchStream, recordSourceVideos, finalizeResults, pageCountsRef, setResults, setCurrentPage, setHasMore, setLoadingMore, setFailedSources]);
 
     const cancelSearch = useCallback(() => {
         if (abortControllerRef.current) {
@@ -139,5 +259,5 @@ export function useSearchAction({ state, onCacheUpdate, onUrlUpdate }: UseSearch
         }
     }, []);
 
-    return { performSearch, cancelSearch };
+    return { performSearch, loadMore, cancelSearch };
 }
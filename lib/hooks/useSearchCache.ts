@@ -28,6 +28,29 @@ const stripVideoData = (results: any[]) => {
   });
 };
 
+/**
+ * Read the last search from LocalStorage, dropping it once expired
+ */
+export function readSearchCache(): SearchCache | null {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    if (!cached) return null;
+
+    const cache: SearchCache = JSON.parse(cached);
+
+    // Check if cache is still valid
+    if (Date.now() - cache.timestamp > CACHE_DURATION) {
+      localStorage.removeItem(CACHE_KEY);
+      return null;
+    }
+
+    return cache;
+  } catch (error) {
+    console.error('[Cache] Failed to load search results from LocalStorage:', error);
+    return null;
+  }
+}
+
 export function useSearchCache() {
   /**
    * Strip unnecessary large fields before caching to save LocalStorage space
@@ -75,25 +98,7 @@ export function useSearchCache() {
     }
   }, []);
 
-  const loadFromCache = useCallback((): SearchCache | null => {
-    try {
-      const cached = localStorage.getItem(CACHE_KEY);
-      if (!cached) return null;
-
-      const cache: SearchCache = JSON.parse(cached);
-
-      // Check if cache is still valid
-      if (Date.now() - cache.timestamp > CACHE_DURATION) {
-        localStorage.removeItem(CACHE_KEY);
-        return null;
-      }
-
-      return cache;
-    } catch (error) {
-      console.error('[Cache] Failed to load search results from LocalStorage:', error);
-      return null;
-    }
-  }, []);
+  const loadFromCache = useCallback((): SearchCache | null => readSearchCache(), []);
 
   return {
     saveToCache,
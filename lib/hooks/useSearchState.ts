@@ -1,5 +1,5 @@
 import { useState, useRef, useCallback } from 'react';
-import { Video, SourceBadge } from '@/lib/types';
+import { Video, SourceBadge, SourceFailure } from '@/lib/types';
 
 export function useSearchState() {
     const [loading, setLoading] = useState(false);
@@ -8,7 +8,13 @@ export function useSearchState() {
     const [completedSources, setCompletedSources] = useState(0);
     const [totalSources, setTotalSources] = useState(0);
     const [totalVideosFound, setTotalVideosFound] = useState(0);
+    const [failedSources, setFailedSources] = useState<SourceFailure[]>([]);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [hasMore, setHasMore] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
     const currentQueryRef = useRef<string>('');
+    // Page count reported by each source for the current query
+    const pageCountsRef = useRef<Map<string, number>>(new Map());
 
     const resetState = useCallback(() => {
         setLoading(false);
@@ -17,6 +23,11 @@ export function useSearchState() {
         setCompletedSources(0);
         setTotalSources(0);
         setTotalVideosFound(0);
+        setFailedSources([]);
+        setCurrentPage(1);
+        setHasMore(false);
+        setLoadingMore(false);
+        pageCountsRef.current = new Map();
         currentQueryRef.current = '';
     }, []);
 
@@ -27,6 +38,11 @@ export function useSearchState() {
         setCompletedSources(0);
         setTotalSources(0);
         setTotalVideosFound(0);
+        setFailedSources([]);
+        setCurrentPage(1);
+        setHasMore(false);
+        setLoadingMore(false);
+        pageCountsRef.current = new Map();
         currentQueryRef.current = query;
     }, []);
 
@@ -43,7 +59,16 @@ export function useSearchState() {
         setTotalSources,
         totalVideosFound,
         setTotalVideosFound,
+        failedSources,
+        setFailedSources,
+        currentPage,
+        setCurrentPage,
+        hasMore,
+        setHasMore,
+        loadingMore,
+        setLoadingMore,
         currentQueryRef,
+        pageCountsRef,
         resetState,
         startSearch,
     };
@@ -0,0 +1,79 @@
+/**
+ * useSearchSuggestions Hook
+ * Debounced title completions from /api/suggest, with the user's search history ranked in
+ * locally so it never leaves the browser, and keyboard highlight state
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { SearchSuggestion } from '@/lib/types';
+import { rankSuggestions } from '@/lib/utils/suggestion-rank';
+
+const DEBOUNCE_MS = 250;
+const MAX_SUGGESTIONS = 10;
+
+interface SuggestionState {
+  prefix: string;
+  items: SearchSuggestion[];
+}
+
+export function useSearchSuggestions(prefix: string, history: string[]) {
+  const [state, setState] = useState<SuggestionState>({ prefix: '', items: [] });
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const trimmedPrefix = prefix.trim();
+
+  useEffect(() => {
+    if (!trimmedPrefix) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: trimmedPrefix, limit: String(MAX_SUGGESTIONS) });
+
+      try {
+        const response = await fetch(`/api/suggest?${params.toString()}`, { signal: controller.signal });
+        if (!response.ok) return;
+        const data = await response.json();
+        setState({ prefix: trimmedPrefix, items: data.suggestions || [] });
+        setHighlightedIndex(-1);
+      } catch {
+        // Aborted by a newer keystroke, or offline: keep the dropdown as it is
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedPrefix]);
+
+  const suggestions = useMemo(() => {
+    if (!trimmedPrefix) return [];
+    // Only merge server completions that belong to what is typed now, keeping their order
+    const serverItems = state.prefix === trimmedPrefix ? state.items : [];
+    return rankSuggestions(trimmedPrefix, [
+      ...history.map(text => ({ text, source: 'history' as const, hits: 0 })),
+      ...serverItems.map((item, index) => ({ ...item, hits: serverItems.length - index })),
+    ], MAX_SUGGESTIONS);
+  }, [trimmedPrefix, state, history]);
+
+  const navigateSuggestions = useCallback((direction: 'up' | 'down') => {
+    if (suggestions.length === 0) return;
+
+    setHighlightedIndex((prevIndex) => {
+      if (direction === 'down') {
+        return prevIndex < suggestions.length - 1 ? prevIndex + 1 : 0;
+      }
+      return prevIndex > 0 ? prevIndex - 1 : suggestions.length - 1;
+    });
+  }, [suggestions.length]);
+
+  const resetSuggestionHighlight = useCallback(() => {
+    setHighlightedIndex(-1);
+  }, []);
+
+  return {
+    suggestions,
+    suggestionIndex: highlightedIndex,
+    navigateSuggestions,
+    resetSuggestionHighlight,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * useSourceHealth - Hook for the server-side circuit breaker state of each source
+ * Polls /api/source-health so benched sources show up in settings
+ */
+
+import { useState, useEffect } from 'react';
+import type { SourceHealth } from '@/lib/types';
+
+export function useSourceHealth(intervalMs: number = 30000) {
+    const [health, setHealth] = useState<Record<string, SourceHealth>>({});
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const response = await fetch('/api/source-health', { cache: 'no-store' });
+                if (!response.ok) return;
+                const data = await response.json();
+                if (!cancelled) setHealth(data.sources || {});
+            } catch {
+                // Health is informational only; keep the last known state
+            }
+        };
+
+        load();
+        const intervalId = setInterval(load, intervalMs);
+
+        return () => {
+            cancelled = true;
+            clearInterval(intervalId);
+        };
+    }, [intervalMs]);
+
+    return health;
+}
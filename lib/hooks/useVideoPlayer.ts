@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { settingsStore } from '@/lib/store/settings-store';
+import { buildProxyUrl } from '@/lib/utils/proxy-url';
 
 interface VideoData {
   vod_id: string;
@@ -13,18 +14,31 @@ interface VideoData {
   vod_year?: string;
   vod_area?: string;
   type_name?: string;
-  episodes?: Array<{ name?: string; url: string }>;
+  episodes?: PlayerEpisode[];
+  lines?: Array<{ code: string; episodes: PlayerEpisode[] }>;
+  source_code?: string;
+}
+
+interface PlayerEpisode {
+  name?: string;
+  url: string;
+  proxyUrl?: string; // Signed proxy entry URL from the server
 }
 
 interface UseVideoPlayerReturn {
   videoData: VideoData | null;
+  episodes: PlayerEpisode[];
+  lines: Array<{ code: string; episodes: PlayerEpisode[] }>;
+  currentLine: number;
   loading: boolean;
   videoError: string;
   currentEpisode: number;
   playUrl: string;
+  proxyPlayUrl?: string; // Proxy URL of playUrl, signed when the server signs proxy requests; missing when there is none
   setCurrentEpisode: (index: number) => void;
   setPlayUrl: (url: string) => void;
   setVideoError: (error: string) => void;
+  switchLine: (lineIndex: number) => number | null;
   fetchVideoDetails: () => Promise<void>;
 }
 
@@ -32,19 +46,23 @@ export function useVideoPlayer(
   videoId: string | null,
   source: string | null,
   episodeParam: string | null,
-  isReversed: boolean = false
+  isReversed: boolean = false,
+  lineParam: string | null = null
 ): UseVideoPlayerReturn {
   const [videoData, setVideoData] = useState<VideoData | null>(null);
   // Initialize loading to true if we have the necessary params to start fetching
   const [loading, setLoading] = useState(!!(videoId && source));
   const [currentEpisode, setCurrentEpisode] = useState(0);
+  const [currentLine, setCurrentLine] = useState(0);
   const [playUrl, setPlayUrl] = useState('');
   const [videoError, setVideoError] = useState<string>('');
+  const [proxySigning, setProxySigning] = useState(false);
 
   // Refs to keep track of latest values for the fetch function without re-triggering it
   // This solves the stale closure problem while keeping fetchVideoDetails stable for the player
   const episodeParamRef = useRef(episodeParam);
   const isReversedRef = useRef(isReversed);
+  const lineParamRef = useRef(lineParam);
 
   useEffect(() => {
     episodeParamRef.current = episodeParam;
@@ -54,6 +72,28 @@ export function useVideoPlayer(
     isReversedRef.current = isReversed;
   }, [isReversed]);
 
+  useEffect(() => {
+    lineParamRef.current = lineParam;
+  }, [lineParam]);
+
+  // Fall back to the flat episode list for responses without lines
+  const lines = useMemo(() => {
+    if (videoData?.lines && videoData.lines.length > 0) return videoData.lines;
+    if (videoData?.episodes && videoData.episodes.length > 0) {
+      return [{ code: videoData.source_code || '', episodes: videoData.episodes }];
+    }
+    return [];
+  }, [videoData]);
+
+  const episodes = useMemo(() => lines[currentLine]?.episodes || [], [lines, currentLine]);
+
+  // Only the server can sign, so with signing on an episode it didn't sign has no proxy URL
+  const proxyPlayUrl = useMemo(() => {
+    if (!playUrl) return undefined;
+    const signedUrl = lines.flatMap(line => line.episodes).find(episode => episode.url === playUrl)?.proxyUrl;
+    return signedUrl || (proxySigning ? undefined : buildProxyUrl('', playUrl, source));
+  }, [lines, playUrl, proxySigning, source]);
+
   const fetchVideoDetails = useCallback(async () => {
     if (!videoId || !source) return;
 
@@ -94,19 +134,31 @@ export function useVideoPlayer(
 
       if (data.success && data.data) {
         setVideoData(data.data);
+        setProxySigning(Boolean(data.proxySigning));
         setLoading(false);
 
-        if (data.data.episodes && data.data.episodes.length > 0) {
+        const detail: VideoData = data.data;
+        const detailLines = detail.lines && detail.lines.length > 0
+          ? detail.lines
+          : [{ code: detail.source_code || '', episodes: detail.episodes || [] }];
+
+        // Resolve the initial line: URL param first, then the source's default line
+        const requestedLine = lineParamRef.current ? parseInt(lineParamRef.current, 10) : NaN;
+        const defaultLine = Math.max(0, detailLines.findIndex(line => line.code === detail.source_code));
+        const lineIndex = requestedLine >= 0 && requestedLine < detailLines.length ? requestedLine : defaultLine;
+        const lineEpisodes = detailLines[lineIndex].episodes;
+
+        if (lineEpisodes.length > 0) {
           const latestIsReversed = isReversedRef.current;
           const latestEpisodeParam = episodeParamRef.current;
 
-          const defaultIndex = latestIsReversed ? data.data.episodes.length - 1 : 0;
+          const defaultIndex = latestIsReversed ? lineEpisodes.length - 1 : 0;
           const episodeIndex = latestEpisodeParam ? parseInt(latestEpisodeParam, 10) : defaultIndex;
-          const validIndex = (episodeIndex >= 0 && episodeIndex < data.data.episodes.length) ? episodeIndex : defaultIndex;
+          const validIndex = (episodeIndex >= 0 && episodeIndex < lineEpisodes.length) ? episodeIndex : defaultIndex;
 
-          const episodeUrl = data.data.episodes[validIndex].url;
+          setCurrentLine(lineIndex);
           setCurrentEpisode(validIndex);
-          setPlayUrl(episodeUrl);
+          setPlayUrl(lineEpisodes[validIndex].url);
         } else {
           setVideoError('该来源没有可播放的剧集');
           setLoading(false);
@@ -123,16 +175,52 @@ export function useVideoPlayer(
 
   // Sync state from params if they change externally (e.g. back/forward navigation)
   useEffect(() => {
-    if (videoData?.episodes && episodeParam !== null) {
+    if (episodes.length > 0 && episodeParam !== null) {
       const index = parseInt(episodeParam, 10);
-      if (!isNaN(index) && index >= 0 && index < videoData.episodes.length) {
+      if (!isNaN(index) && index >= 0 && index < episodes.length) {
         if (index !== currentEpisode) {
           setCurrentEpisode(index);
-          setPlayUrl(videoData.episodes[index].url);
+          setPlayUrl(episodes[index].url);
         }
       }
     }
-  }, [episodeParam, videoData, currentEpisode]);
+  }, [episodeParam, episodes, currentEpisode]);
+
+  // Same for the line, but only when the param itself changes: switchLine updates the
+  // state before the URL catches up, and must not be undone in between
+  const syncedLineParamRef = useRef(lineParam);
+  useEffect(() => {
+    if (lineParam === syncedLineParamRef.current) return;
+    syncedLineParamRef.current = lineParam;
+
+    const lineIndex = lineParam ? parseInt(lineParam, 10) : NaN;
+    const lineEpisodes = lines[lineIndex]?.episodes;
+    if (!lineEpisodes || lineEpisodes.length === 0 || lineIndex === currentLine) return;
+
+    const requestedEpisode = episodeParamRef.current ? parseInt(episodeParamRef.current, 10) : NaN;
+    const episodeIndex = requestedEpisode >= 0 && requestedEpisode < lineEpisodes.length
+      ? requestedEpisode
+      : Math.min(currentEpisode, lineEpisodes.length - 1);
+    setCurrentLine(lineIndex);
+    setCurrentEpisode(episodeIndex);
+    setPlayUrl(lineEpisodes[episodeIndex].url);
+  }, [lineParam, lines, currentLine, currentEpisode]);
+
+  /**
+   * Switch to another play line, keeping the current episode index when possible
+   * Returns the episode index played on the new line, or null if the line is unusable
+   */
+  const switchLine = useCallback((lineIndex: number): number | null => {
+    const line = lines[lineIndex];
+    if (!line || line.episodes.length === 0) return null;
+
+    const episodeIndex = Math.min(currentEpisode, line.episodes.length - 1);
+    setCurrentLine(lineIndex);
+    setCurrentEpisode(episodeIndex);
+    setPlayUrl(line.episodes[episodeIndex].url);
+    setVideoError('');
+    return episodeIndex;
+  }, [lines, currentEpisode]);
 
   useEffect(() => {
     if (videoId && source) {
@@ -142,13 +230,18 @@ export function useVideoPlayer(
 
   return {
     videoData,
+    episodes,
+    lines,
+    currentLine,
     loading,
     videoError,
     currentEpisode,
     playUrl,
+    proxyPlayUrl,
     setCurrentEpisode,
     setPlayUrl,
     setVideoError,
+    switchLine,
     fetchVideoDetails,
   };
 }
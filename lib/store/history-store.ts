@@ -7,6 +7,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { VideoHistoryItem, Episode } from '@/lib/types';
 import { clearSegmentsForUrl, clearAllCache } from '@/lib/utils/cacheManager';
+import { getWorkIdentity, getWorkKey } from '@/lib/utils/work-identity';
 
 const MAX_HISTORY_ITEMS = 50;
 
@@ -14,6 +15,12 @@ interface HistoryState {
   viewingHistory: VideoHistoryItem[];
 }
 
+// Year and type of the video, from its detail
+export interface HistoryWorkInfo {
+  vod_year?: string;
+  type_name?: string;
+}
+
 interface HistoryActions {
   addToHistory: (
     videoId: string | number,
@@ -24,7 +31,8 @@ interface HistoryActions {
     playbackPosition: number,
     duration: number,
     poster?: string,
-    episodes?: Episode[]
+    episodes?: Episode[],
+    work?: HistoryWorkInfo
   ) => void;
 
   removeFromHistory: (videoId: string | number, source: string) => void;
@@ -36,13 +44,19 @@ interface HistoryStore extends HistoryState, HistoryActions { }
 
 /**
  * Generate unique identifier for deduplication
+ * The work key when year and type are known, so the same show watched from another source
+ * replaces its entry; a title alone can't tell a remake or a film from a series of the same name,
+ * so otherwise the entry belongs to this source's video only
  */
 function generateShowIdentifier(
   title: string,
   source: string,
-  videoId: string | number
+  videoId: string | number,
+  work?: HistoryWorkInfo
 ): string {
-  return `${source}:${videoId}:${title.toLowerCase().trim()}`;
+  const video = { vod_name: title, ...work };
+  const { year, kind } = getWorkIdentity(video);
+  return year && kind ? getWorkKey(video) : `${source}:${videoId}`;
 }
 
 const createHistoryStore = (name: string) =>
@@ -60,16 +74,22 @@ const createHistoryStore = (name: string) =>
           playbackPosition,
           duration,
           poster,
-          episodes = []
+          episodes = [],
+          work
         ) => {
-          const showIdentifier = generateShowIdentifier(title, source, videoId);
           const timestamp = Date.now();
 
           set((state) => {
-            // Check if item already exists
-            const existingIndex = state.viewingHistory.findIndex(
-              (item) => item.showIdentifier === showIdentifier
+            // The same video keeps its entry, and its identifier when this update doesn't know the work
+            const sameVideoIndex = state.viewingHistory.findIndex(
+              (item) => item.source === source && item.videoId.toString() === videoId.toString()
             );
+            const showIdentifier = work || sameVideoIndex === -1
+              ? generateShowIdentifier(title, source, videoId, work)
+              : state.viewingHistory[sameVideoIndex].showIdentifier;
+            const existingIndex = sameVideoIndex !== -1
+              ? sameVideoIndex
+              : state.viewingHistory.findIndex((item) => item.showIdentifier === showIdentifier);
 
             let newHistory: VideoHistoryItem[];
 
@@ -77,6 +97,11 @@ const createHistoryStore = (name: string) =>
               // Update existing item and move to top
               const updatedItem: VideoHistoryItem = {
                 ...state.viewingHistory[existingIndex],
+                videoId,
+                title,
+                source,
+                showIdentifier,
+                poster: poster || state.viewingHistory[existingIndex].poster,
                 url,
                 episodeIndex,
                 playbackPosition,
@@ -85,9 +110,12 @@ const createHistoryStore = (name: string) =>
                 episodes: episodes.length > 0 ? episodes : state.viewingHistory[existingIndex].episodes,
               };
 
+              // Also folds in another source's entry for the work, once this video's work is known
               newHistory = [
                 updatedItem,
-                ...state.viewingHistory.filter((_, index) => index !== existingIndex),
+                ...state.viewingHistory.filter(
+                  (item, index) => index !== existingIndex && item.showIdentifier !== showIdentifier
+                ),
               ];
             } else {
               // Add new item at the top
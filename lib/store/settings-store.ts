@@ -5,7 +5,7 @@
 import type { VideoSource, SourceSubscription } from '@/lib/types';
 import { DEFAULT_SOURCES } from '@/lib/api/default-sources';
 import { PREMIUM_SOURCES } from '@/lib/api/premium-sources';
-import { createSubscription } from '@/lib/utils/source-import-utils';
+import { createSubscription, parseSubscriptionList } from '@/lib/utils/source-import-utils';
 
 export type SortOption =
   | 'default'
@@ -35,10 +35,14 @@ export interface AppSettings {
   autoSkipOutro: boolean;
   skipOutroSeconds: number;
   showModeIndicator: boolean; // Show '直连模式'/'代理模式' badge on player
+  adFilter: boolean; // Strip spliced-in ad segments from proxied HLS playlists
+  adFilterRules: string[]; // Extra rules matched against segment URLs: text with * wildcards, | between alternatives
+  preferredQuality: number; // Preferred HLS video height, 0 for automatic switching
   // Search & Display settings
   realtimeLatency: boolean; // Enable real-time latency ping updates
   searchDisplayMode: SearchDisplayMode; // 'normal' = individual cards, 'grouped' = group same-name videos
   episodeReverseOrder: boolean; // Persist episode list reverse state
+  ratingEnrichment: boolean; // Fill missing ratings from Douban hot lists
 }
 
 import { exportSettings, importSettings, SEARCH_HISTORY_KEY, WATCH_HISTORY_KEY } from './settings-helpers';
@@ -51,38 +55,14 @@ export const getDefaultPremiumSources = (): VideoSource[] => PREMIUM_SOURCES;
 
 
 function getEnvSubscriptions(customValue?: string): SourceSubscription[] {
-  const envValue = (customValue || process.env.SUBSCRIPTION_SOURCES || process.env.NEXT_PUBLIC_SUBSCRIPTION_SOURCES || '').trim();
-  if (!envValue) return [];
-
-  // 1. Try JSON
-  try {
-    const raw = JSON.parse(envValue);
-    if (Array.isArray(raw)) {
-      return raw
-        .filter((item: any) => item && typeof item.name === 'string' && typeof item.url === 'string')
-        .map((item: any) => createSubscription(item.name, item.url));
-    }
-  } catch (e) {
-    // Ignore JSON parse error, try direct URL
-  }
-
-  // 2. Try Simple URL (or comma separated)
-  // Check if it looks like a URL (basic check)
-  if (envValue.includes('http')) {
-    const urls = envValue.split(',').map(u => u.trim()).filter(u => u.length > 0);
-    return urls.map((url, index) => {
-      // Basic URL validation
-      if (!url.startsWith('http')) return null;
-
-      const name = urls.length > 1
-        ? `系统预设源 ${index + 1}`
-        : `系统预设源`;
-
-      return createSubscription(name, url);
-    }).filter((s): s is SourceSubscription => s !== null);
-  }
-
-  return [];
+  const envValue = customValue || process.env.SUBSCRIPTION_SOURCES || process.env.NEXT_PUBLIC_SUBSCRIPTION_SOURCES || '';
+  const lists = parseSubscriptionList(envValue);
+
+  return lists.map(({ name, url }, index) => {
+    // Plain URLs get a generated name
+    const fallbackName = lists.length > 1 ? `系统预设源 ${index + 1}` : '系统预设源';
+    return createSubscription(name || fallbackName, url);
+  });
 }
 // Debugging helper
 // console.log("Environment Subscriptions:", getEnvSubscriptions());
@@ -105,9 +85,13 @@ export const settingsStore = {
         autoSkipOutro: false,
         skipOutroSeconds: 0,
         showModeIndicator: false,
+        adFilter: false,
+        adFilterRules: [],
+        preferredQuality: 0,
         realtimeLatency: false,
         searchDisplayMode: 'normal',
         episodeReverseOrder: false,
+        ratingEnrichment: false,
       };
     }
 
@@ -128,9 +112,13 @@ export const settingsStore = {
         autoSkipOutro: false,
         skipOutroSeconds: 0,
         showModeIndicator: false,
+        adFilter: false,
+        adFilterRules: [],
+        preferredQuality: 0,
         realtimeLatency: false,
         searchDisplayMode: 'normal',
         episodeReverseOrder: false,
+        ratingEnrichment: false,
       };
     }
 
@@ -187,9 +175,13 @@ export const settingsStore = {
         autoSkipOutro: parsed.autoSkipOutro !== undefined ? parsed.autoSkipOutro : false,
         skipOutroSeconds: typeof parsed.skipOutroSeconds === 'number' ? parsed.skipOutroSeconds : 0,
         showModeIndicator: parsed.showModeIndicator !== undefined ? parsed.showModeIndicator : false,
+        adFilter: parsed.adFilter !== undefined ? parsed.adFilter : false,
+        adFilterRules: Array.isArray(parsed.adFilterRules) ? parsed.adFilterRules : [],
+        preferredQuality: typeof parsed.preferredQuality === 'number' ? parsed.preferredQuality : 0,
         realtimeLatency: parsed.realtimeLatency !== undefined ? parsed.realtimeLatency : false,
         searchDisplayMode: parsed.searchDisplayMode === 'grouped' ? 'grouped' : 'normal',
         episodeReverseOrder: parsed.episodeReverseOrder !== undefined ? parsed.episodeReverseOrder : false,
+        ratingEnrichment: parsed.ratingEnrichment !== undefined ? parsed.ratingEnrichment : false,
       };
     } catch {
       // Even if localStorage fails, we should return defaults + ENV subscriptions
@@ -210,9 +202,13 @@ export const settingsStore = {
         autoSkipOutro: false,
         skipOutroSeconds: 0,
         showModeIndicator: false,
+        adFilter: false,
+        adFilterRules: [],
+        preferredQuality: 0,
         realtimeLatency: false,
         searchDisplayMode: 'normal',
         episodeReverseOrder: false,
+        ratingEnrichment: false,
       };
     }
   },
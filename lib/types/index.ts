@@ -2,6 +2,46 @@
  * Core type definitions for KVideo platform
  */
 
+// Response format served by a source ('auto' detects JSON vs MacCMS XML per response)
+export type SourceFormat = 'json' | 'xml' | 'auto';
+
+// Query parameter names and action values, for sources that deviate from the MacCMS defaults
+export interface SourceParams {
+  action?: string; // Action parameter name, default 'ac'
+  searchAction?: string; // Action used for search and category lists, default 'detail' (e.g. 'videolist')
+  detailAction?: string; // default 'detail'
+  listAction?: string; // Action returning the category list, default 'list'
+  search?: string; // Keyword parameter, default 'wd' (e.g. 'keyword')
+  detail?: string; // Video id parameter, default 'ids'
+  category?: string; // Category id parameter, default 't'
+  page?: string; // Page parameter, default 'pg' (e.g. 'page')
+}
+
+// Headers the proxy sends upstream when streaming a source's videos
+export interface PlaybackProfile {
+  referer?: string; // Defaults to the video host
+  userAgent?: string; // Defaults to a rotating browser UA
+  headers?: Record<string, string>; // Extra headers, e.g. CDN tokens
+  spoofIp?: boolean; // Send X-Forwarded-For/Client-IP, default true
+  hosts?: string[]; // PLAYBACK_PROFILES only: more hosts the headers may go to, '*.' wildcards allowed
+}
+
+// Ad filtering applied by the proxy to HLS media playlists
+export interface AdFilterOptions {
+  rules: string[]; // Text with * wildcards matched against segment URIs
+}
+
+// Request context the proxy carries from a playlist into every URI it rewrites.
+// Readable by the client: a server source's profile is resolved from sourceId at each hop,
+// and a custom source's profile is only carried encrypted
+export interface ProxyContext {
+  sourceId?: string; // A server source; when signed, vouches that the target belongs to it
+  referer?: string; // Referer given on the entry request, overrides the profile's
+  ip?: string; // X-Forwarded-For value given on the entry request
+  sealedProfile?: string; // A custom source's profile, see sealPlaybackProfile; only honoured when signed
+  resource?: 'playlist' | 'key'; // What a rewritten URI points to, so the proxy knows what it may cache
+}
+
 // API Source Configuration
 export interface VideoSource {
   id: string;
@@ -13,6 +53,9 @@ export interface VideoSource {
   enabled?: boolean;
   priority?: number;
   group?: 'normal' | 'premium'; // Categorize source type for routing
+  format?: SourceFormat; // Defaults to 'auto'
+  params?: SourceParams;
+  playback?: PlaybackProfile;
 }
 
 // Source Subscription for auto-updating sources from a URL
@@ -24,6 +67,59 @@ export interface SourceSubscription {
   autoRefresh: boolean;
 }
 
+// Circuit breaker state of a source in the search fan-out
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+// Server-side health record of a source
+export interface SourceHealth {
+  state: BreakerState;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatency: number | null; // Moving average of successful requests, in ms
+  lastError?: string;
+  openedAt?: number; // timestamp
+  retryAt?: number; // timestamp when an open breaker lets the next probe through
+}
+
+// One step of a source validation report
+export interface SourceTestStep {
+  status: 'ok' | 'failed' | 'skipped';
+  message: string;
+  latency?: number; // ms
+}
+
+// Result of /api/source/test for a candidate source
+export interface SourceTestReport {
+  ok: boolean; // Search, parse and detail all passed
+  search: SourceTestStep;
+  parse: SourceTestStep;
+  detail: SourceTestStep;
+  playback: SourceTestStep & { via?: 'direct' | 'proxy' };
+}
+
+// Why a source failed to answer (see lib/api/errors.ts)
+export type SourceErrorCode =
+  | 'TIMEOUT'
+  | 'HTTP_STATUS'
+  | 'PARSE_ERROR'
+  | 'UPSTREAM_CODE'
+  | 'TLS'
+  | 'NETWORK'
+  | 'NOT_FOUND'
+  | 'CIRCUIT_OPEN'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+// A failed source as reported by the search stream
+export interface SourceFailure {
+  source: string;
+  sourceName: string;
+  code: SourceErrorCode;
+  message: string;
+  status?: number; // HTTP status, for HTTP_STATUS errors
+}
+
 // Video Search Result
 export interface VideoItem {
   vod_id: number | string;
@@ -36,6 +132,10 @@ export interface VideoItem {
   vod_actor?: string;
   vod_director?: string;
   vod_content?: string;
+  vod_score?: string;
+  vod_douban_score?: string;
+  rating?: number; // 0-10, from vod_douban_score/vod_score or Douban enrichment
+  ratingSource?: 'source' | 'douban';
   source: string;
   latency?: number; // Response time in milliseconds
 }
@@ -57,11 +157,40 @@ export interface TypeBadge {
   count: number;
 }
 
+// Douban subject resolved by /api/douban/subject
+export interface DoubanSubject {
+  id: string;
+  title: string;
+  year?: string;
+  rating?: number;
+  cover?: string;
+  directors: string[];
+  cast: string[];
+  genres: string[];
+  summary?: string;
+  url: string;
+}
+
+// Search completion from /api/suggest, tagged with where it came from
+export type SuggestionSource = 'history' | 'recent' | 'douban';
+
+export interface SearchSuggestion {
+  text: string;
+  source: SuggestionSource;
+}
+
 // Episode Information
 export interface Episode {
   name: string;
   url: string;
   index: number;
+  proxyUrl?: string; // Signed /api/proxy entry URL, when the server signs proxy requests
+}
+
+// Play Line (one entry of vod_play_from / vod_play_url split on $$$)
+export interface PlayLine {
+  code: string;
+  episodes: Episode[];
 }
 
 // Full Video Detail
@@ -76,9 +205,10 @@ export interface VideoDetail {
   vod_director?: string;
   vod_content?: string;
   type_name?: string;
-  episodes: Episode[];
+  episodes: Episode[]; // Episodes of the default line
+  lines: PlayLine[]; // Every non-empty play line offered by the source
   source: string;
-  source_code: string;
+  source_code: string; // Code of the default line
 }
 
 // History Entry
@@ -133,8 +263,13 @@ export interface ApiDetailResponse {
     vod_actor?: string;
     vod_director?: string;
     vod_content?: string;
+    vod_score?: string;
+    vod_douban_score?: string;
     type_name?: string;
     vod_play_from?: string;
     vod_play_url?: string;
   }>;
 }
+
+// Normalized source response (JSON or XML) with paging info and raw records
+export type ApiSourceResponse = ApiDetailResponse & Pick<ApiSearchResponse, 'page' | 'pagecount' | 'limit' | 'total'>;
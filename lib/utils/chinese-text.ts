@@ -0,0 +1,79 @@
+/**
+ * Chinese Text Utilities
+ * Traditional → Simplified conversion and pinyin forms, using the bundled offline tables
+ */
+
+import { TRADITIONAL_CHARS, SIMPLIFIED_CHARS } from '@/lib/constants/chinese-variants';
+import { PINYIN_TABLE } from '@/lib/constants/pinyin-table';
+
+let simplifiedMap: Map<string, string> | null = null;
+let pinyinMap: Map<string, string> | null = null;
+
+function getSimplifiedMap(): Map<string, string> {
+    if (!simplifiedMap) {
+        simplifiedMap = new Map();
+        for (let i = 0; i < TRADITIONAL_CHARS.length; i++) {
+            simplifiedMap.set(TRADITIONAL_CHARS[i], SIMPLIFIED_CHARS[i]);
+        }
+    }
+    return simplifiedMap;
+}
+
+function getPinyinMap(): Map<string, string> {
+    if (!pinyinMap) {
+        pinyinMap = new Map();
+        for (const [syllable, chars] of Object.entries(PINYIN_TABLE)) {
+            for (const char of chars) {
+                pinyinMap.set(char, syllable);
+            }
+        }
+    }
+    return pinyinMap;
+}
+
+/**
+ * Convert Traditional characters to Simplified, leaving everything else untouched
+ */
+export function toSimplified(text: string): string {
+    const map = getSimplifiedMap();
+    let result = '';
+    for (const char of text) {
+        result += map.get(char) ?? char;
+    }
+    return result;
+}
+
+/**
+ * Normalize text for matching: full-width forms, case and script
+ */
+export function normalizeChinese(text: string): string {
+    return toSimplified(text.normalize('NFKC').toLowerCase()).trim();
+}
+
+/**
+ * Full pinyin and initials of a text, e.g. "庆余年2" → { full: "qingyunian2", initials: "qyn2" }
+ * Characters without a reading are kept as-is; spaces and punctuation are dropped.
+ */
+export function toPinyin(text: string): { full: string; initials: string } {
+    const map = getPinyinMap();
+    let full = '';
+    let initials = '';
+    for (const char of normalizeChinese(text)) {
+        const syllable = map.get(char);
+        if (syllable) {
+            full += syllable;
+            initials += syllable[0];
+        } else if (/[\p{L}\p{N}]/u.test(char)) {
+            full += char;
+            initials += char;
+        }
+    }
+    return { full, initials };
+}
+
+/**
+ * Whether a query looks like pinyin or initials rather than Chinese text
+ */
+export function isPinyinQuery(query: string): boolean {
+    return /^[a-z0-9\s']+$/i.test(query) && /[a-z]/i.test(query);
+}
@@ -0,0 +1,44 @@
+/**
+ * Douban Subject Hints
+ * Remembers which Douban subject a title was opened from (e.g. a home page MovieCard),
+ * so later lookups can use the exact id instead of matching by title
+ */
+
+import { parseWorkTitle } from './work-identity';
+
+const HINTS_KEY = 'kvideo_douban_subject_hints';
+const MAX_HINTS = 100;
+
+function hintKey(title: string): string {
+    const { title: workTitle, season } = parseWorkTitle(title);
+    return `${workTitle}|s${season}`;
+}
+
+function readHints(): Record<string, string> {
+    try {
+        return JSON.parse(sessionStorage.getItem(HINTS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+export function rememberDoubanSubjectId(title: string, id: string): void {
+    if (typeof window === 'undefined' || !title || !id) return;
+
+    const hints = readHints();
+    delete hints[hintKey(title)];
+    hints[hintKey(title)] = id;
+
+    // Keep only the most recent hints
+    const entries = Object.entries(hints).slice(-MAX_HINTS);
+    try {
+        sessionStorage.setItem(HINTS_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch {
+        // Storage full or unavailable: matching falls back to the title
+    }
+}
+
+export function getRememberedDoubanSubjectId(title: string): string | undefined {
+    if (typeof window === 'undefined' || !title) return undefined;
+    return readHints()[hintKey(title)];
+}
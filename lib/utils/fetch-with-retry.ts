@@ -1,26 +1,66 @@
-import { NextRequest } from 'next/server';
+import type { PlaybackProfile, ProxyContext } from '@/lib/types';
+import { checkProxyTarget, ProxyPolicyError } from '@/lib/api/proxy-policy';
 
 interface FetchWithRetryOptions {
     url: string;
-    request: NextRequest;
+    method?: 'GET' | 'HEAD';
     headers?: Record<string, string>;
+    context?: ProxyContext; // Referer and ip carried from the entry request
+    profile?: PlaybackProfile; // The source's headers, resolved on the server
 }
 
-export async function fetchWithRetry({ url, request, headers = {} }: FetchWithRetryOptions): Promise<Response> {
+const MAX_REDIRECTS = 5;
+
+/**
+ * Follow redirects by hand so every hop passes the proxy policy; the first URL is checked by the caller
+ */
+export async function fetchFollowingRedirects(
+    url: string,
+    init: RequestInit,
+    fetcher: (url: string, init: RequestInit) => Promise<Response> = fetch
+): Promise<Response> {
+    let currentUrl = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const response = await fetcher(currentUrl, { ...init, redirect: 'manual' });
+        const location = response.headers.get('Location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+            return response;
+        }
+        currentUrl = checkProxyTarget(new URL(location, currentUrl).toString()).toString();
+    }
+    throw new Error(`Too many redirects for ${url}`);
+}
+
+export async function fetchWithRetry({
+    url,
+    method = 'GET',
+    headers = {},
+    context = {},
+    profile = {},
+}: FetchWithRetryOptions): Promise<Response> {
     // User-Agent rotation for better compatibility
     const userAgents = [
         'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
         'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:120.0) Gecko/20100101 Firefox/120.0'
     ];
-    const randomUA = userAgents[Math.floor(Math.random() * userAgents.length)];
+    const userAgent = profile.userAgent || userAgents[Math.floor(Math.random() * userAgents.length)];
 
     // Smart Referer: use video domain instead of kvideo.vercel.app to avoid suspicion
     const videoUrl = new URL(url);
-    const referer = request.nextUrl.searchParams.get('referer') || `${videoUrl.protocol}//${videoUrl.hostname}`;
+    const referer = context.referer || profile.referer || `${videoUrl.protocol}//${videoUrl.hostname}`;
+    let origin = `${videoUrl.protocol}//${videoUrl.hostname}`;
+    try {
+        origin = new URL(referer).origin;
+    } catch {
+        // Keep the video origin for malformed referers
+    }
 
-    // Optional IP forwarding (default: Beijing IP)
-    const forwardedIP = request.nextUrl.searchParams.get('ip') || '202.108.22.5';
+    // Optional IP forwarding (default: Beijing IP), unless the source profile disables it
+    const forwardedIP = context.ip || '202.108.22.5';
+    const ipHeaders: Record<string, string> = profile.spoofIp === false
+        ? {}
+        : { 'X-Forwarded-For': forwardedIP, 'Client-IP': forwardedIP };
 
     const MAX_RETRIES = 5;
     const TIMEOUT_MS = 30000; // 30 seconds
@@ -38,22 +78,24 @@ export async function fetchWithRetry({ url, request, headers = {} }: FetchWithRe
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
 
-            response = await fetch(url, {
+            response = await fetchFollowingRedirects(url, {
+                method,
                 headers: {
-                    ...headers, // First: forwarded headers (Cookie, Range)
+                    ...headers, // First: forwarded headers (Range and its validators)
                     // Then override with anti-blocking headers (these take precedence)
-                    'User-Agent': randomUA,
+                    'User-Agent': userAgent,
                     'Accept': '*/*',
                     'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-                    'Accept-Encoding': 'gzip, deflate, br',
+                    // Byte ranges only line up with the stored file when it is sent uncompressed
+                    'Accept-Encoding': headers.range ? 'identity' : 'gzip, deflate, br',
                     'Connection': 'keep-alive',
-                    'X-Forwarded-For': forwardedIP,
-                    'Client-IP': forwardedIP,
+                    ...ipHeaders,
                     'Referer': referer,
-                    'Origin': `${videoUrl.protocol}//${videoUrl.hostname}`,
+                    'Origin': origin,
                     'Sec-Fetch-Dest': 'empty',
                     'Sec-Fetch-Mode': 'cors',
                     'Sec-Fetch-Site': 'cross-site',
+                    ...profile.headers, // Last: source-specific headers such as tokens
                 },
                 signal: controller.signal,
             });
@@ -73,6 +115,10 @@ export async function fetchWithRetry({ url, request, headers = {} }: FetchWithRe
             console.warn(`✗ Got ${response.status} on attempt ${attempt}`);
             break;
         } catch (fetchError) {
+            // A redirect to a blocked host won't change on retry
+            if (fetchError instanceof ProxyPolicyError) {
+                throw fetchError;
+            }
             lastError = fetchError;
             if (fetchError instanceof Error && fetchError.name === 'AbortError') {
                 console.warn(`⚠ Timeout on attempt ${attempt}, retrying...`);
@@ -0,0 +1,229 @@
+/**
+ * HLS Ad Filter
+ * Strips ad segments that CMS sources splice into VOD media playlists between
+ * discontinuity markers, plus segments matching user-defined rules
+ */
+
+import type { AdFilterOptions } from '@/lib/types';
+
+export interface AdFilterResult {
+    content: string;
+    strippedSeconds: number;
+    strippedSegments: number;
+}
+
+interface Segment {
+    lines: string[];
+    uri: string;
+    duration: number;
+    discontinuity: boolean;
+}
+
+/**
+ * A rule's alternatives ("|"), each as the literal pieces between "*" wildcards
+ */
+type AdRule = string[][];
+
+const MAX_RULES = 20;
+const MAX_RULE_LENGTH = 200;
+// Ad breaks are short; a longer foreign run is more likely a real part of the video
+const MAX_AD_RUN_SECONDS = 120;
+// Common lengths of spliced ad breaks, in seconds
+const KNOWN_AD_DURATIONS = [5, 10, 15, 20, 25, 30, 45, 60];
+const AD_DURATION_TOLERANCE = 0.5;
+// Heuristics back off when they would strip more than this share of the video
+const MAX_HEURISTIC_SHARE = 0.5;
+
+/**
+ * Query params carrying the filter options from the player to the proxy entry request
+ */
+export function buildAdFilterParams(options: AdFilterOptions): string {
+    const params = new URLSearchParams({ adfilter: '1' });
+    options.rules.slice(0, MAX_RULES).forEach(rule => params.append('adrule', rule));
+    return params.toString();
+}
+
+export function getAdFilterOptions(params: URLSearchParams): AdFilterOptions | null {
+    if (params.get('adfilter') !== '1') return null;
+    return { rules: params.getAll('adrule').slice(0, MAX_RULES) };
+}
+
+/**
+ * Rules the user typed in settings. They arrive from the client, so they are plain text
+ * with "*" wildcards rather than regular expressions; oversized rules and alternatives
+ * that would match every segment are skipped.
+ */
+export function parseAdRules(rules: string[]): AdRule[] {
+    return rules
+        .map(rule => rule.trim().toLowerCase())
+        .filter(rule => rule && rule.length <= MAX_RULE_LENGTH)
+        .map(rule => rule
+            .split('|')
+            .map(alternative => alternative.split('*').filter(Boolean))
+            .filter(pieces => pieces.length > 0))
+        .filter(alternatives => alternatives.length > 0);
+}
+
+/**
+ * Case-insensitive: every piece of an alternative must appear in order
+ */
+function matchesAdRule(lowerUri: string, rule: AdRule): boolean {
+    return rule.some(pieces => {
+        let from = 0;
+        return pieces.every(piece => {
+            const index = lowerUri.indexOf(piece, from);
+            if (index === -1) return false;
+            from = index + piece.length;
+            return true;
+        });
+    });
+}
+
+/**
+ * Host plus directory, so runs served from another CDN or path stand out
+ */
+function getSignature(uri: string, base: URL): string {
+    try {
+        const url = new URL(uri, base);
+        return `${url.host}${url.pathname.replace(/[^/]*$/, '')}`;
+    } catch {
+        return '';
+    }
+}
+
+function parseSegments(lines: string[]): { header: string[]; segments: Segment[]; trailer: string[] } {
+    const header: string[] = [];
+    const segments: Segment[] = [];
+    let pending: string[] = [];
+    let started = false;
+
+    lines.forEach(line => {
+        const trimmed = line.trim();
+        if (!started && !trimmed.startsWith('#EXTINF') && !trimmed.startsWith('#EXT-X-DISCONTINUITY')
+            && (trimmed.startsWith('#') || !trimmed)) {
+            header.push(line);
+            return;
+        }
+        started = true;
+        pending.push(line);
+
+        if (trimmed && !trimmed.startsWith('#')) {
+            const extinf = pending.find(l => l.trim().startsWith('#EXTINF:'));
+            segments.push({
+                lines: pending,
+                uri: trimmed,
+                duration: extinf ? parseFloat(extinf.trim().slice('#EXTINF:'.length)) || 0 : 0,
+                discontinuity: pending.some(l => l.trim() === '#EXT-X-DISCONTINUITY'),
+            });
+            pending = [];
+        }
+    });
+
+    return { header, segments, trailer: pending };
+}
+
+function isKnownAdDuration(seconds: number): boolean {
+    return KNOWN_AD_DURATIONS.some(known => Math.abs(seconds - known) <= AD_DURATION_TOLERANCE);
+}
+
+/**
+ * Mark discontinuity-bounded runs that look spliced in: served from a foreign host or
+ * path, or lasting exactly a typical ad length
+ */
+function markHeuristicAds(segments: Segment[], base: URL, removed: boolean[]): void {
+    const runs: number[][] = [];
+    segments.forEach((segment, index) => {
+        if (segment.discontinuity || runs.length === 0) runs.push([]);
+        runs[runs.length - 1].push(index);
+    });
+    if (runs.length < 2) return;
+
+    const runDuration = (run: number[]) => run.reduce((sum, i) => sum + segments[i].duration, 0);
+    const totalDuration = segments.reduce((sum, segment) => sum + segment.duration, 0);
+
+    // The main video is whichever host and path carries the most playback time
+    const durationBySignature = new Map<string, number>();
+    segments.forEach(segment => {
+        const signature = getSignature(segment.uri, base);
+        durationBySignature.set(signature, (durationBySignature.get(signature) || 0) + segment.duration);
+    });
+    const mainSignature = [...durationBySignature.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+    const adRuns = runs.filter(run => {
+        const duration = runDuration(run);
+        if (duration > MAX_AD_RUN_SECONDS) return false;
+        const isForeign = run.some(i => getSignature(segments[i].uri, base) !== mainSignature);
+        return isForeign || (isKnownAdDuration(duration) && duration < totalDuration * 0.1);
+    });
+
+    const strippedDuration = adRuns.reduce((sum, run) => sum + runDuration(run), 0);
+    if (strippedDuration > totalDuration * MAX_HEURISTIC_SHARE) return;
+
+    adRuns.flat().forEach(i => {
+        removed[i] = true;
+    });
+}
+
+/**
+ * Remove ad segments from a media playlist; master and live playlists are returned unchanged
+ */
+export function filterHlsAds(content: string, baseUrl: string, options: AdFilterOptions): AdFilterResult {
+    const unchanged = { content, strippedSeconds: 0, strippedSegments: 0 };
+    // Live playlists are skipped: dropping segments would shift media sequence numbers between reloads
+    if (!content.includes('#EXTINF') || !content.includes('#EXT-X-ENDLIST')) return unchanged;
+
+    const base = new URL(baseUrl);
+    const { header, segments, trailer } = parseSegments(content.split('\n'));
+    const removed: boolean[] = segments.map(() => false);
+
+    markHeuristicAds(segments, base, removed);
+
+    const rules = parseAdRules(options.rules);
+    segments.forEach((segment, index) => {
+        const lowerUri = segment.uri.toLowerCase();
+        if (rules.some(rule => matchesAdRule(lowerUri, rule))) removed[index] = true;
+    });
+
+    if (!removed.includes(true)) return unchanged;
+
+    const output = [...header];
+    let strippedSeconds = 0;
+    let strippedSegments = 0;
+    let pendingDiscontinuity = false;
+    // Key and init-segment tags inside removed runs still apply to the segments after them
+    let carriedTags: string[] = [];
+
+    segments.forEach((segment, index) => {
+        if (removed[index]) {
+            strippedSeconds += segment.duration;
+            strippedSegments++;
+            pendingDiscontinuity = pendingDiscontinuity || segment.discontinuity;
+            segment.lines.forEach(line => {
+                const trimmed = line.trim();
+                if (trimmed.startsWith('#EXT-X-KEY:')) {
+                    carriedTags = [...carriedTags.filter(tag => !tag.startsWith('#EXT-X-KEY:')), trimmed];
+                } else if (trimmed.startsWith('#EXT-X-MAP:')) {
+                    carriedTags = [...carriedTags.filter(tag => !tag.startsWith('#EXT-X-MAP:')), trimmed];
+                }
+            });
+            return;
+        }
+
+        if (pendingDiscontinuity && !segment.discontinuity && output.length > header.length) {
+            output.push('#EXT-X-DISCONTINUITY');
+        }
+        const overridden = segment.lines.map(line => line.trim().split(':')[0]);
+        output.push(...carriedTags.filter(tag => !overridden.includes(tag.split(':')[0])));
+        output.push(...segment.lines);
+        pendingDiscontinuity = false;
+        carriedTags = [];
+    });
+
+    output.push(...trailer);
+
+    return {
+        content: output.join('\n'),
+        strippedSeconds: Math.round(strippedSeconds * 10) / 10,
+        strippedSegments,
+    };
+}
@@ -0,0 +1,136 @@
+/**
+ * Media Format Detection
+ * Works out which playback engine a video URL needs, from its extension, the
+ * Content-Type it is served with, or the first bytes of the response
+ */
+
+export type MediaFormat = 'hls' | 'dash' | 'flv' | 'progressive';
+
+const PROBE_BYTES = 2048;
+const PROBE_TIMEOUT = 8000;
+
+const EXTENSION_FORMATS: Record<string, MediaFormat> = {
+    m3u8: 'hls',
+    m3u: 'hls',
+    mpd: 'dash',
+    flv: 'flv',
+    mp4: 'progressive',
+    m4v: 'progressive',
+    mov: 'progressive',
+    webm: 'progressive',
+    ogv: 'progressive',
+};
+
+/**
+ * Target of a /api/proxy URL, otherwise the URL itself
+ */
+export function unwrapProxyUrl(src: string): string {
+    try {
+        const url = new URL(src, 'http://localhost');
+        if (url.pathname.endsWith('/api/proxy')) {
+            return url.searchParams.get('url') || src;
+        }
+    } catch {
+        // Not a URL; detection falls through to the probe
+    }
+    return src;
+}
+
+export function detectFormatFromUrl(src: string): MediaFormat | null {
+    try {
+        const fileName = new URL(unwrapProxyUrl(src), 'http://localhost').pathname.split('/').pop() || '';
+        const dot = fileName.lastIndexOf('.');
+        return dot === -1 ? null : EXTENSION_FORMATS[fileName.slice(dot + 1).toLowerCase()] || null;
+    } catch {
+        return null;
+    }
+}
+
+export function detectFormatFromContentType(contentType: string | null): MediaFormat | null {
+    const type = (contentType || '').split(';')[0].trim().toLowerCase();
+    if (type.includes('mpegurl')) return 'hls';
+    if (type === 'application/dash+xml') return 'dash';
+    if (type === 'video/x-flv' || type === 'video/flv') return 'flv';
+    // Bare MPEG-TS needs a demuxer that the native element doesn't have
+    if (type === 'video/mp2t') return null;
+    if (type.startsWith('video/') || type.startsWith('audio/')) return 'progressive';
+    return null;
+}
+
+function hasBytes(bytes: Uint8Array, offset: number, expected: number[]): boolean {
+    return expected.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * Recognise a format by its signature, since many CDNs serve everything as octet-stream
+ */
+function sniffFormat(bytes: Uint8Array): MediaFormat | null {
+    if (hasBytes(bytes, 0, [0x46, 0x4c, 0x56])) return 'flv'; // "FLV"
+    if (hasBytes(bytes, 4, [0x66, 0x74, 0x79, 0x70])) return 'progressive'; // MP4 "ftyp" box
+    if (hasBytes(bytes, 0, [0x1a, 0x45, 0xdf, 0xa3])) return 'progressive'; // WebM EBML header
+
+    const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('#EXTM3U')) return 'hls';
+    if (text.startsWith('<') && text.includes('<MPD')) return 'dash';
+    return null;
+}
+
+async function readFirstBytes(response: Response, limit: number): Promise<Uint8Array> {
+    if (!response.body) return new Uint8Array();
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    while (length < limit) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        length += value.length;
+    }
+    reader.cancel().catch(() => { });
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return bytes.slice(0, limit);
+}
+
+/**
+ * Fetch the first bytes of a URL and identify it by content, then by Content-Type
+ * @returns null when the request fails (e.g. blocked by CORS) or nothing matches
+ */
+export async function probeMediaFormat(src: string, signal?: AbortSignal): Promise<MediaFormat | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+        const response = await fetch(src, {
+            headers: { Range: `bytes=0-${PROBE_BYTES - 1}` },
+            signal: controller.signal,
+        });
+        if (!response.ok) {
+            await response.body?.cancel();
+            return null;
+        }
+        const contentType = response.headers.get('Content-Type');
+        return sniffFormat(await readFirstBytes(response, PROBE_BYTES)) || detectFormatFromContentType(contentType);
+    } catch {
+        return null;
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abort);
+    }
+}
+
+/**
+ * Format of a video URL: its extension when it has a known one, otherwise a probe.
+ * Anything unidentified is treated as HLS, which most sources serve.
+ */
+export async function resolveMediaFormat(src: string, signal?: AbortSignal): Promise<MediaFormat> {
+    return detectFormatFromUrl(src) || await probeMediaFormat(src, signal) || 'hls';
+}
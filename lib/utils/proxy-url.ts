@@ -0,0 +1,12 @@
+/**
+ * Proxy URL Builder
+ * Unsigned /api/proxy URLs built in the browser; free of server modules so client components can import it
+ */
+
+/**
+ * Build a proxy URL, keeping the source id so nested requests use its playback profile
+ */
+export function buildProxyUrl(origin: string, url: string, sourceId?: string | null): string {
+    const sourceParam = sourceId ? `&source=${encodeURIComponent(sourceId)}` : '';
+    return `${origin}/api/proxy?url=${encodeURIComponent(url)}${sourceParam}`;
+}
@@ -1,7 +1,25 @@
+import type { AdFilterOptions, ProxyContext } from '@/lib/types';
+import { buildSignedProxyUrl } from '@/lib/api/proxy-signing';
+import { encodeProxyContext } from '@/lib/api/proxy-context';
+import { buildAdFilterParams, filterHlsAds } from './hls-ad-filter';
+
+export interface ProcessM3u8Result {
+    content: string;
+    strippedSeconds: number; // Playback time removed by the ad filter
+    uris: string[]; // Absolute targets of the rewritten URIs
+}
+
 /**
  * Extract and proxy URI from HLS tags like EXT-X-KEY, EXT-X-MAP, EXT-X-MEDIA
  */
-function proxyUriInTag(line: string, base: URL, origin: string): string {
+async function proxyUriInTag(
+    line: string,
+    base: URL,
+    origin: string,
+    context: string,
+    uris: string[],
+    extraParams: string = ''
+): Promise<string> {
     const uriMatch = line.match(/URI="([^"]+)"/);
     if (uriMatch && uriMatch[1]) {
         const uri = uriMatch[1];
@@ -11,7 +29,8 @@ function proxyUriInTag(line: string, base: URL, origin: string): string {
         }
         try {
             const absoluteUrl = new URL(uri, base).toString();
-            const proxiedUrl = `${origin}/api/proxy?url=${encodeURIComponent(absoluteUrl)}`;
+            uris.push(absoluteUrl);
+            const proxiedUrl = await buildSignedProxyUrl(origin, absoluteUrl, context) + extraParams;
             return line.replace(/URI="[^"]+"/, `URI="${proxiedUrl}"`);
         } catch {
             return line;
@@ -20,30 +39,52 @@ function proxyUriInTag(line: string, base: URL, origin: string): string {
     return line;
 }
 
+/**
+ * @param adFilter - Applied here and passed on to nested playlists as plain params, outside the signed context
+ */
 export async function processM3u8Content(
     content: string,
     baseUrl: string,
-    origin: string
-): Promise<string> {
+    origin: string,
+    context: ProxyContext = {},
+    adFilter: AdFilterOptions | null = null
+): Promise<ProcessM3u8Result> {
+    let strippedSeconds = 0;
+    if (adFilter) {
+        const filtered = filterHlsAds(content, baseUrl, adFilter);
+        content = filtered.content;
+        strippedSeconds = filtered.strippedSeconds;
+    }
+
     const lines = content.split('\n');
     const base = new URL(baseUrl);
+    // Every hop keeps the entry request's context; only nested playlists need the ad filter
+    const playlistContext = encodeProxyContext({ ...context, resource: 'playlist' });
+    const mediaContext = encodeProxyContext({ ...context, resource: undefined });
+    const keyContext = encodeProxyContext({ ...context, resource: 'key' });
+    const playlistParams = adFilter ? `&${buildAdFilterParams(adFilter)}` : '';
+    const uris: string[] = [];
+    let afterStreamInf = false;
 
-    const processedLines = lines.map(line => {
+    // Every rewritten URI is signed, so the whole manifest → variant → key → segment chain verifies
+    const processedLines = await Promise.all(lines.map(async line => {
         const trimmed = line.trim();
+        const isVariantUri = afterStreamInf && Boolean(trimmed) && !trimmed.startsWith('#');
+        if (trimmed) afterStreamInf = trimmed.startsWith('#EXT-X-STREAM-INF:');
 
         // Handle EXT-X-KEY (encryption keys)
         if (trimmed.startsWith('#EXT-X-KEY:')) {
-            return proxyUriInTag(trimmed, base, origin);
+            return proxyUriInTag(trimmed, base, origin, keyContext, uris);
         }
 
         // Handle EXT-X-MAP (fMP4 initialization segments)
         if (trimmed.startsWith('#EXT-X-MAP:')) {
-            return proxyUriInTag(trimmed, base, origin);
+            return proxyUriInTag(trimmed, base, origin, mediaContext, uris);
         }
 
         // Handle EXT-X-MEDIA (alternative audio/subtitle tracks)
         if (trimmed.startsWith('#EXT-X-MEDIA:')) {
-            return proxyUriInTag(trimmed, base, origin);
+            return proxyUriInTag(trimmed, base, origin, playlistContext, uris, playlistParams);
         }
 
         // Handle EXT-X-STREAM-INF (master playlist variants)
@@ -65,11 +106,14 @@ export async function processM3u8Content(
 
         try {
             const absoluteUrl = new URL(trimmed, base).toString();
-            return `${origin}/api/proxy?url=${encodeURIComponent(absoluteUrl)}`;
+            uris.push(absoluteUrl);
+            return isVariantUri
+                ? await buildSignedProxyUrl(origin, absoluteUrl, playlistContext) + playlistParams
+                : await buildSignedProxyUrl(origin, absoluteUrl, mediaContext);
         } catch {
             return line;
         }
-    });
+    }));
 
-    return processedLines.join('\n');
+    return { content: processedLines.join('\n'), strippedSeconds, uris };
 }
@@ -0,0 +1,116 @@
+/**
+ * Rating Utilities
+ * Typed ratings from source fields, plus optional enrichment from Douban hot lists
+ */
+
+import type { Video } from '@/lib/types';
+import { getWorkKind, parseWorkTitle, type WorkKind } from './work-identity';
+
+const DOUBAN_RATINGS_TTL = 60 * 60 * 1000; // 1 hour
+type DoubanKind = 'movie' | 'tv';
+
+// Douban lists that carry a "rate" per subject, fetched through /api/douban/recommend
+const DOUBAN_RATING_LISTS: Array<{ type: DoubanKind; tag: string }> = [
+    { type: 'movie', tag: '热门' },
+    { type: 'movie', tag: '豆瓣高分' },
+    { type: 'tv', tag: '热门' },
+];
+
+interface DoubanRating {
+    kind: DoubanKind;
+    rating: number;
+}
+
+/**
+ * Douban ratings keyed by work title and season. The lists carry no year,
+ * so the list type is what tells a film from a series of the same name.
+ */
+export type DoubanRatings = Map<string, DoubanRating[]>;
+
+let doubanRatings: { ratings: DoubanRatings; fetchedAt: number } | null = null;
+
+/**
+ * Parse a 0-10 score; sources send "0.0" or "" for unrated titles
+ */
+export function parseRating(value: unknown): number | undefined {
+    const rating = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return rating > 0 && rating <= 10 ? Math.round(rating * 10) / 10 : undefined;
+}
+
+/**
+ * Rating from the source's own fields, preferring the Douban score it reports
+ */
+export function getSourceRating(item: { vod_douban_score?: string | number; vod_score?: string | number }): number | undefined {
+    return parseRating(item.vod_douban_score) ?? parseRating(item.vod_score);
+}
+
+export function formatRating(rating: number): string {
+    return rating.toFixed(1);
+}
+
+function getRatingKey(rawTitle: string): string {
+    const { title, season } = parseWorkTitle(rawTitle);
+    return `${title}|s${season}`;
+}
+
+function matchesKind(rating: DoubanRating, kind?: WorkKind): boolean {
+    if (!kind) return true;
+    return rating.kind === 'movie' ? kind === 'movie' : kind !== 'movie';
+}
+
+async function fetchRatingList(type: DoubanKind, tag: string): Promise<Array<{ title: string; rate: string }>> {
+    const params = new URLSearchParams({ type, tag, page_limit: '100', page_start: '0' });
+    const response = await fetch(`/api/douban/recommend?${params.toString()}`);
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.subjects || [];
+}
+
+/**
+ * Douban ratings by work, cached for the session
+ */
+export async function fetchDoubanRatings(): Promise<DoubanRatings> {
+    if (doubanRatings && Date.now() - doubanRatings.fetchedAt < DOUBAN_RATINGS_TTL) {
+        return doubanRatings.ratings;
+    }
+
+    const lists = await Promise.all(
+        DOUBAN_RATING_LISTS.map(async ({ type, tag }) => ({
+            kind: type,
+            subjects: await fetchRatingList(type, tag).catch(() => []),
+        }))
+    );
+
+    const ratings: DoubanRatings = new Map();
+    lists.forEach(({ kind, subjects }) => subjects.forEach(subject => {
+        const rating = parseRating(subject.rate);
+        if (rating === undefined) return;
+        const key = getRatingKey(subject.title);
+        // A subject on several lists of the same type is kept once
+        const entries = (ratings.get(key) || []).filter(entry => entry.kind !== kind);
+        ratings.set(key, [...entries, { kind, rating }]);
+    }));
+
+    doubanRatings = { ratings, fetchedAt: Date.now() };
+    return ratings;
+}
+
+/**
+ * Fill in ratings for videos the source left unrated; returns the same array when nothing changed.
+ * A title that is both a film and a series on Douban is left alone unless the video's type says which.
+ */
+export function applyDoubanRatings(videos: Video[], ratings: DoubanRatings): Video[] {
+    if (ratings.size === 0) return videos;
+
+    let changed = false;
+    const enriched = videos.map(video => {
+        if (video.rating !== undefined) return video;
+        const kind = getWorkKind(video.type_name);
+        const matches = (ratings.get(getRatingKey(video.vod_name)) || []).filter(entry => matchesKind(entry, kind));
+        if (matches.length !== 1) return video;
+        changed = true;
+        return { ...video, rating: matches[0].rating, ratingSource: 'douban' as const };
+    });
+
+    return changed ? enriched : videos;
+}
@@ -0,0 +1,143 @@
+/**
+ * Search Query Syntax
+ * Parses queries like `三体 year:2023 type:剧集 area:大陆 -动画 actor:张鲁一`.
+ * Only the free text goes to sources; the structured parts filter the results.
+ */
+
+import type { VideoItem } from '@/lib/types';
+import { normalizeChinese } from './chinese-text';
+import { getWorkKind } from './work-identity';
+
+export type SearchFilterField = 'year' | 'type' | 'area' | 'actor';
+
+export interface SearchFilters {
+    year?: string;
+    type?: string;
+    area?: string;
+    actor?: string;
+    exclude: string[];
+}
+
+export interface ParsedSearchQuery {
+    text: string;
+    filters: SearchFilters;
+}
+
+/** A single removable filter, as shown in the filter chips */
+export interface SearchFilterToken {
+    field: SearchFilterField | 'exclude';
+    value: string;
+}
+
+// Chinese aliases so the syntax can be typed without switching input methods
+const FIELD_ALIASES: Record<string, SearchFilterField> = {
+    year: 'year', '年份': 'year', '年': 'year',
+    type: 'type', '类型': 'type',
+    area: 'area', '地区': 'area',
+    actor: 'actor', '演员': 'actor',
+};
+
+export const FILTER_LABELS: Record<SearchFilterToken['field'], string> = {
+    year: '年份',
+    type: '类型',
+    area: '地区',
+    actor: '演员',
+    exclude: '排除',
+};
+
+// key:value, key:"quoted value", -term or -"quoted term"; full-width colons allowed
+const TOKEN_REGEX = /(?:^|\s)(?:([^\s:：]+)[:：](?:"([^"]*)"|(\S+))|-(?:"([^"]*)"|(\S+)))(?=\s|$)/g;
+
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+    const filters: SearchFilters = { exclude: [] };
+
+    const text = raw.replace(TOKEN_REGEX, (match, key, quotedValue, value, quotedExclude, exclude) => {
+        if (key) {
+            const field = FIELD_ALIASES[key.toLowerCase()];
+            // Unknown keys stay part of the text, e.g. "名侦探柯南:黑铁的鱼影"
+            if (!field) return match;
+            const fieldValue = (quotedValue ?? value).trim();
+            if (fieldValue) filters[field] = fieldValue;
+            return ' ';
+        }
+        const term = (quotedExclude ?? exclude).trim();
+        if (term) filters.exclude.push(term);
+        return ' ';
+    });
+
+    return { text: text.replace(/\s+/g, ' ').trim(), filters };
+}
+
+export function getFilterTokens(filters: SearchFilters): SearchFilterToken[] {
+    const fields: SearchFilterField[] = ['year', 'type', 'area', 'actor'];
+    return [
+        ...fields.filter(field => filters[field]).map(field => ({ field, value: filters[field]! })),
+        ...filters.exclude.map(value => ({ field: 'exclude' as const, value })),
+    ];
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+    return getFilterTokens(filters).length > 0;
+}
+
+function quote(value: string): string {
+    return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Rebuild a query string, e.g. after a filter chip was removed
+ */
+export function formatSearchQuery({ text, filters }: ParsedSearchQuery): string {
+    const parts = getFilterTokens(filters).map(({ field, value }) =>
+        field === 'exclude' ? `-${quote(value)}` : `${field}:${quote(value)}`
+    );
+    return [text, ...parts].filter(Boolean).join(' ');
+}
+
+export function removeFilterToken(parsed: ParsedSearchQuery, token: SearchFilterToken): ParsedSearchQuery {
+    const filters: SearchFilters = { ...parsed.filters, exclude: [...parsed.filters.exclude] };
+    if (token.field === 'exclude') {
+        filters.exclude = filters.exclude.filter(term => term !== token.value);
+    } else {
+        delete filters[token.field];
+    }
+    return { text: parsed.text, filters };
+}
+
+function includesNormalized(field: string | undefined, value: string): boolean {
+    return !!field && normalizeChinese(field).includes(normalizeChinese(value));
+}
+
+/**
+ * Year filter accepts a single year or a range such as 2020-2023
+ */
+function matchesYear(vodYear: string | undefined, filter: string): boolean {
+    const year = parseInt(vodYear || '', 10);
+    if (!year) return false;
+    const [from, to] = filter.split('-').map(part => parseInt(part, 10));
+    if (!from) return false;
+    return filter.includes('-') ? year >= from && (!to || year <= to) : year === from;
+}
+
+/**
+ * Type filter compares coarse kinds when it names one (剧集, 电影…), otherwise the raw type name
+ */
+function matchesType(typeName: string | undefined, filter: string): boolean {
+    const kind = getWorkKind(filter);
+    if (kind) return getWorkKind(typeName) === kind || includesNormalized(typeName, filter);
+    return includesNormalized(typeName, filter);
+}
+
+/**
+ * Videos missing a filtered field don't match that filter
+ */
+export function matchesSearchFilters(video: VideoItem, filters: SearchFilters): boolean {
+    if (filters.year && !matchesYear(video.vod_year, filters.year)) return false;
+    if (filters.type && !matchesType(video.type_name, filters.type)) return false;
+    if (filters.area && !includesNormalized(video.vod_area, filters.area)) return false;
+    if (filters.actor && !includesNormalized(video.vod_actor, filters.actor)) return false;
+
+    return !filters.exclude.some(term =>
+        includesNormalized(video.vod_name, term) || includesNormalized(video.type_name, term)
+    );
+}
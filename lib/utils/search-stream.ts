@@ -1,4 +1,4 @@
-import { Video } from '@/lib/types';
+import { Video, SourceFailure } from '@/lib/types';
 import { getSourceName } from '@/lib/utils/source-names';
 import { calculateRelevanceScore, hasMinimumMatch } from '@/lib/utils/search';
 
@@ -7,6 +7,9 @@ interface StreamHandlerParams {
     onStart: (totalSources: number) => void;
     onVideos: (videos: Video[], source: string) => void;
     onProgress: (completedSources: number, totalVideosFound: number) => void;
+    // Page count of a source that answered, sent whether or not any of its results survived the filters
+    onPageCount?: (source: string, pageCount: number) => void;
+    onSourceError?: (failure: SourceFailure) => void;
     onComplete: () => void;
     onError: (message: string) => void;
     currentQuery: string;
@@ -17,6 +20,8 @@ export async function processSearchStream({
     onStart,
     onVideos,
     onProgress,
+    onPageCount,
+    onSourceError,
     onComplete,
     onError,
     currentQuery,
@@ -72,6 +77,18 @@ export async function processSearchStream({
                         resetTimeout();
                     } else if (data.type === 'progress') {
                         onProgress(data.completedSources, data.totalVideosFound);
+                        if (data.source && data.pagecount !== undefined) {
+                            onPageCount?.(data.source, Number(data.pagecount) || 1);
+                        }
+                        resetTimeout();
+                    } else if (data.type === 'source-error') {
+                        onSourceError?.({
+                            source: data.source,
+                            sourceName: data.sourceName || getSourceName(data.source),
+                            code: data.code,
+                            message: data.message,
+                            status: data.status,
+                        });
                         resetTimeout();
                     } else if (data.type === 'complete') {
                         if (timeoutId) clearTimeout(timeoutId);
@@ -4,14 +4,23 @@
  */
 
 import type { VideoItem } from '@/lib/types';
+import { normalizeChinese, toPinyin, isPinyinQuery } from './chinese-text';
+
+/**
+ * Compact a pinyin query: "Qing Yu Nian" → "qingyunian"
+ */
+function compactPinyin(query: string): string {
+  return query.toLowerCase().replace(/[\s']+/g, '');
+}
 
 /**
  * Check if title contains at least 2 consecutive characters from search query
  * This filters out irrelevant results
+ * Traditional and Simplified forms match each other, and pinyin or initials match the title's reading
  */
 export function hasMinimumMatch(title: string, query: string): boolean {
-  const normalizedTitle = title.toLowerCase();
-  const normalizedQuery = query.toLowerCase().trim();
+  const normalizedTitle = normalizeChinese(title);
+  const normalizedQuery = normalizeChinese(query);
 
   // Extract all 2+ character substrings from query
   for (let i = 0; i <= normalizedQuery.length - 2; i++) {
@@ -21,17 +30,37 @@ export function hasMinimumMatch(title: string, query: string): boolean {
     }
   }
 
+  if (isPinyinQuery(normalizedQuery)) {
+    const pinyinQuery = compactPinyin(normalizedQuery);
+    const { full, initials } = toPinyin(title);
+    return pinyinQuery.length >= 2 && (full.includes(pinyinQuery) || initials.includes(pinyinQuery));
+  }
+
   return false;
 }
 
+/**
+ * Score a pinyin or initials query against the title's reading
+ */
+function scorePinyinMatch(title: string, query: string): number {
+  const pinyinQuery = compactPinyin(query);
+  if (pinyinQuery.length < 2) return 0;
+
+  const { full, initials } = toPinyin(title);
+  if (full === pinyinQuery || initials === pinyinQuery) return 800;
+  if (full.startsWith(pinyinQuery) || initials.startsWith(pinyinQuery)) return 400;
+  if (full.includes(pinyinQuery) || initials.includes(pinyinQuery)) return 150;
+  return 0;
+}
+
 /**
  * Calculate search relevance score
  * Higher score = more relevant to the search query
  */
 export function calculateRelevanceScore(item: VideoItem, query: string): number {
   let score = 0;
-  const normalizedQuery = query.toLowerCase().trim();
-  const normalizedTitle = item.vod_name.toLowerCase();
+  const normalizedQuery = normalizeChinese(query);
+  const normalizedTitle = normalizeChinese(item.vod_name);
 
   // Split query into words for partial matching
   const queryWords = normalizedQuery.split(/\s+/);
@@ -56,6 +85,11 @@ export function calculateRelevanceScore(item: VideoItem, query: string): number
     score += Math.max(0, 50 - position * 2);
   }
 
+  // 3b. Pinyin or initials of the title, when the title itself didn't match
+  if (score === 0 && isPinyinQuery(normalizedQuery)) {
+    score += scorePinyinMatch(item.vod_name, normalizedQuery);
+  }
+
   // 4. All query words present in title
   const allWordsPresent = queryWords.every(word =>
     normalizedTitle.includes(word)
@@ -80,7 +114,7 @@ export function calculateRelevanceScore(item: VideoItem, query: string): number
 
   // 6. Actor match
   if (item.vod_actor) {
-    const normalizedActor = item.vod_actor.toLowerCase();
+    const normalizedActor = normalizeChinese(item.vod_actor);
     if (normalizedActor.includes(normalizedQuery)) {
       score += 80;
     }
@@ -93,7 +127,7 @@ export function calculateRelevanceScore(item: VideoItem, query: string): number
 
   // 7. Director match
   if (item.vod_director) {
-    const normalizedDirector = item.vod_director.toLowerCase();
+    const normalizedDirector = normalizeChinese(item.vod_director);
     if (normalizedDirector.includes(normalizedQuery)) {
       score += 60;
     }
@@ -106,7 +140,7 @@ export function calculateRelevanceScore(item: VideoItem, query: string): number
 
   // 8. Content/description match (if available)
   if (item.vod_content) {
-    const normalizedContent = item.vod_content.toLowerCase();
+    const normalizedContent = normalizeChinese(item.vod_content);
     if (normalizedContent.includes(normalizedQuery)) {
       score += 20;
     }
@@ -42,10 +42,10 @@ export function sortVideos(videos: Video[], sortBy: SortOption): Video[] {
       });
 
     case 'rating-desc':
-      // Sort by rating if available (placeholder for future implementation)
+      // Sort by rating (highest first), unrated videos last
       return sorted.sort((a, b) => {
-        const ratingA = (a as any).vod_score || 0;
-        const ratingB = (b as any).vod_score || 0;
+        const ratingA = a.rating ?? 0;
+        const ratingB = b.rating ?? 0;
         return ratingB - ratingA;
       });
 
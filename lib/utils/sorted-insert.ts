@@ -45,3 +45,19 @@ export function binaryInsertVideos<T extends Video>(existing: T[], newVideos: T[
 
     return combined;
 }
+
+/**
+ * Insert videos from a further page, skipping ones already in the list
+ * Videos are identified by source + vod_id
+ */
+export function mergeUniqueVideos<T extends Video>(existing: T[], newVideos: T[]): T[] {
+    const seen = new Set(existing.map(video => `${video.source}:${video.vod_id}`));
+    const unique = newVideos.filter(video => {
+        const key = `${video.source}:${video.vod_id}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+
+    return unique.length > 0 ? binaryInsertVideos(existing, unique) : existing;
+}
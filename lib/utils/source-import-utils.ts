@@ -2,7 +2,7 @@
  * Source Import Utilities - Handle parsing and importing sources from various formats
  */
 
-import type { VideoSource, SourceSubscription } from '@/lib/types';
+import type { VideoSource, SourceSubscription, SourceFormat, SourceParams, PlaybackProfile } from '@/lib/types';
 
 /**
  * Simplified source format for import
@@ -14,6 +14,11 @@ export interface ImportSourceFormat {
     group?: 'normal' | 'premium';
     enabled?: boolean;
     priority?: number;
+    format?: SourceFormat;
+    searchPath?: string;
+    detailPath?: string;
+    params?: SourceParams;
+    playback?: PlaybackProfile;
 }
 
 /**
@@ -33,11 +38,14 @@ export function convertToVideoSource(source: ImportSourceFormat): VideoSource {
         id: source.id,
         name: source.name,
         baseUrl: source.baseUrl,
-        searchPath: '',
-        detailPath: '',
+        searchPath: source.searchPath || '',
+        detailPath: source.detailPath || '',
         enabled: source.enabled !== false,
         priority: source.priority || 1,
         group: source.group || 'normal',
+        format: source.format || 'auto',
+        params: source.params,
+        playback: source.playback,
     };
 }
 
@@ -103,17 +111,23 @@ export function parseSourcesFromJson(jsonString: string): ImportResult {
  * Fetch and parse sources from a URL
  */
 export async function fetchSourcesFromUrl(url: string): Promise<ImportResult> {
-    // If we're in the browser and it's an external URL, use our proxy to avoid CORS issues
-    const isExternal = url.startsWith('http') && (typeof window !== 'undefined' && !url.includes(window.location.host));
-    const fetchUrl = isExternal
-        ? `/api/proxy?url=${encodeURIComponent(url)}`
-        : url;
-
-    const response = await fetch(fetchUrl, {
+    const init: RequestInit = {
         headers: {
             'Accept': 'application/json',
         },
-    });
+    };
+
+    // External lists are fetched directly when their host allows CORS, otherwise through our proxy,
+    // which only takes unsigned requests after the access password is unlocked when signing is on
+    const isExternal = url.startsWith('http') && (typeof window !== 'undefined' && !url.includes(window.location.host));
+    const directResponse = isExternal ? await fetch(url, init).catch(() => null) : null;
+    if (directResponse?.ok === false) {
+        await directResponse.body?.cancel();
+    }
+
+    const response = directResponse?.ok
+        ? directResponse
+        : await fetch(isExternal ? `/api/proxy?url=${encodeURIComponent(url)}` : url, init);
 
     if (!response.ok) {
         throw new Error(`获取失败: ${response.status} ${response.statusText}`);
@@ -136,6 +150,33 @@ export function createSubscription(name: string, url: string): SourceSubscriptio
     };
 }
 
+/**
+ * Subscription lists from a SUBSCRIPTION_SOURCES value: a JSON array of {name, url},
+ * or one or more comma-separated URLs. Names are empty when the value doesn't give any.
+ */
+export function parseSubscriptionList(value: string): Array<{ name: string; url: string }> {
+    const trimmed = value.trim();
+    if (!trimmed) return [];
+
+    try {
+        const raw = JSON.parse(trimmed);
+        if (Array.isArray(raw)) {
+            return raw
+                .filter(item => item && typeof item.name === 'string' && typeof item.url === 'string')
+                .map(item => ({ name: item.name, url: item.url }));
+        }
+    } catch {
+        // Not JSON, try plain URLs
+    }
+
+    if (!trimmed.includes('http')) return [];
+    return trimmed
+        .split(',')
+        .map(url => url.trim())
+        .filter(url => url.startsWith('http'))
+        .map(url => ({ name: '', url }));
+}
+
 /**
  * Merge new sources with existing sources, avoiding duplicates
  */
@@ -0,0 +1,63 @@
+/**
+ * Suggestion Ranking
+ * Scores title completions against a prefix; shared by the suggest API and the search box,
+ * which ranks the user's history locally so it never leaves the browser
+ */
+
+import type { SearchSuggestion, SuggestionSource } from '@/lib/types';
+import { normalizeChinese, toPinyin, isPinyinQuery } from './chinese-text';
+
+// Source order when scores tie: the user's own history first
+const SOURCE_WEIGHT: Record<SuggestionSource, number> = { history: 3, recent: 2, douban: 1 };
+
+export interface SuggestionCandidate extends SearchSuggestion {
+    hits: number;
+}
+
+/**
+ * How well a title completes the prefix: 3 starts with it, 2 its pinyin or initials do, 1 contains it
+ */
+function matchScore(title: string, prefix: string): number {
+    const normalizedTitle = normalizeChinese(title);
+    if (normalizedTitle.startsWith(prefix)) return 3;
+
+    if (isPinyinQuery(prefix)) {
+        const compact = prefix.replace(/[\s']+/g, '');
+        const { full, initials } = toPinyin(title);
+        if (full.startsWith(compact) || initials.startsWith(compact)) return 2;
+    }
+
+    return normalizedTitle.includes(prefix) ? 1 : 0;
+}
+
+/**
+ * Candidates that complete the prefix, best matches first and each title once
+ */
+export function rankSuggestions(
+    prefix: string,
+    candidates: SuggestionCandidate[],
+    limit: number
+): SearchSuggestion[] {
+    const normalizedPrefix = normalizeChinese(prefix);
+    if (!normalizedPrefix) return [];
+
+    const seen = new Set<string>();
+    return candidates
+        .map(candidate => ({ ...candidate, score: matchScore(candidate.text, normalizedPrefix) }))
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) =>
+            b.score - a.score
+            || SOURCE_WEIGHT[b.source] - SOURCE_WEIGHT[a.source]
+            || b.hits - a.hits
+            || a.text.length - b.text.length
+        )
+        .filter(candidate => {
+            // The same title from several places is shown once
+            const key = normalizeChinese(candidate.text);
+            if (seen.has(key) || key === normalizedPrefix) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, limit)
+        .map(({ text, source }) => ({ text, source }));
+}
@@ -0,0 +1,136 @@
+/**
+ * Work Identity
+ * Builds a canonical key for a title so the same work from different sources
+ * ("庆余年 第二季", "庆余年2", "[HD]庆余年 第二季") is treated as one
+ */
+
+import { parseVideoTitle } from './video';
+
+export interface WorkIdentity {
+    title: string;
+    season: number;
+    year?: string;
+    kind?: WorkKind;
+}
+
+export type WorkKind = 'movie' | 'series' | 'anime' | 'variety';
+
+type WorkSource = { vod_name: string; vod_year?: string; type_name?: string };
+
+const CHINESE_DIGITS: Record<string, number> = {
+    '零': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4, '五': 5,
+    '六': 6, '七': 7, '八': 8, '九': 9, '十': 10,
+};
+
+// Season markers, tried in order; each captures the season number
+const SEASON_PATTERNS: RegExp[] = [
+    /第\s*([0-9]+|[零一二两三四五六七八九十]+)\s*[季部]/,
+    /\bseason\s*([0-9]+)\b/i,
+    /\bs([0-9]{1,2})\b/i,
+    // Trailing sequel number, e.g. "庆余年2"; at most two digits so "2046" is left alone
+    /(?<=[^\s0-9])\s*([0-9]{1,2})$/,
+];
+
+// Parenthesised notes and release tags that don't change which work it is
+const NOISE_PATTERNS: RegExp[] = [
+    /[(（【][^)）】]*[)）】]/g,
+    /\b(?:hd|bd|tc|ts|4k|1080p|720p|uncut)\b/gi,
+    /(?:国语|粤语|中字|无删减|完整版|未删减)(?:版)?/g,
+];
+
+function parseChineseNumber(text: string): number {
+    if (/^[0-9]+$/.test(text)) return parseInt(text, 10);
+    // 十 → 10, 十二 → 12, 二十 → 20, 二十一 → 21
+    const [tens, ones] = text.split('十');
+    if (text.includes('十')) {
+        return (tens ? CHINESE_DIGITS[tens] ?? 1 : 1) * 10 + (ones ? CHINESE_DIGITS[ones] ?? 0 : 0);
+    }
+    return CHINESE_DIGITS[text] ?? 1;
+}
+
+/**
+ * Coarse kind from a source's type_name, since sources name categories differently
+ */
+export function getWorkKind(typeName?: string): WorkKind | undefined {
+    if (!typeName) return undefined;
+    if (/动漫|动画|番/.test(typeName)) return 'anime';
+    if (/综艺|真人秀|晚会/.test(typeName)) return 'variety';
+    if (/剧/.test(typeName)) return 'series';
+    if (/电影|片/.test(typeName)) return 'movie';
+    return undefined;
+}
+
+/**
+ * Split a raw title into its cleaned base title and season number
+ */
+export function parseWorkTitle(rawTitle: string): { title: string; season: number } {
+    let title = parseVideoTitle(rawTitle).cleanTitle.normalize('NFKC');
+    for (const pattern of NOISE_PATTERNS) {
+        title = title.replace(pattern, ' ');
+    }
+    title = title.trim();
+
+    let season = 1;
+    for (const pattern of SEASON_PATTERNS) {
+        const match = title.match(pattern);
+        if (match && match.index !== undefined && match.index > 0) {
+            season = parseChineseNumber(match[1]);
+            title = title.slice(0, match.index) + title.slice(match.index + match[0].length);
+            break;
+        }
+    }
+
+    // Compare on letters and digits only
+    const normalized = title.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+    return { title: normalized || rawTitle.trim().toLowerCase(), season };
+}
+
+export function getWorkIdentity(video: WorkSource): WorkIdentity {
+    const year = video.vod_year?.match(/\d{4}/)?.[0];
+    return {
+        ...parseWorkTitle(video.vod_name),
+        year,
+        kind: getWorkKind(video.type_name),
+    };
+}
+
+/**
+ * Canonical key: title, season, year and kind; missing year or kind is written as "*"
+ */
+export function getWorkKey(video: WorkSource): string {
+    const { title, season, year, kind } = getWorkIdentity(video);
+    return [title, `s${season}`, year || '*', kind || '*'].join('|');
+}
+
+/**
+ * Whether two keys can be the same work: title and season must match,
+ * year and kind only when both sides know them
+ */
+export function isSameWork(keyA: string, keyB: string): boolean {
+    if (keyA === keyB) return true;
+    const a = keyA.split('|');
+    const b = keyB.split('|');
+    if (a[0] !== b[0] || a[1] !== b[1]) return false;
+    return [2, 3].every(i => a[i] === '*' || b[i] === '*' || a[i] === b[i]);
+}
+
+/**
+ * Group videos by work, folding entries that lack a year or type into a matching group
+ */
+export function groupByWork<T extends WorkSource>(videos: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+
+    videos.forEach(video => {
+        const key = getWorkKey(video);
+        let groupKey = groups.has(key) ? key : undefined;
+        if (!groupKey) {
+            groupKey = Array.from(groups.keys()).find(existing => isSameWork(existing, key)) || key;
+        }
+        if (!groups.has(groupKey)) {
+            groups.set(groupKey, []);
+        }
+        groups.get(groupKey)!.push(video);
+    });
+
+    return groups;
+}